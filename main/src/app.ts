@@ -1,14 +1,30 @@
 import { createLogger } from '@/shared/logger';
 import { TokenManager } from '@/shared/token.service';
+import { CommandRouter } from './commands/command-router';
+import { registerControlCommands } from './commands/control.commands';
+import { registerGeneralCommands } from './commands/general.commands';
 import { env } from './env';
 import { AIService } from './services/ai.service';
 import { BotManager } from './services/bot-manager';
 import { BotResponseCoordinator } from './services/bot-response-coordinator';
 import { ChatListenerService } from './services/chat-listener.service';
-import { ChatMessageWindow } from './services/chat-message-window';
+import { ChatLogStore } from './services/chat-log-store';
+import {
+  ChatMessageWindow,
+  DEFAULT_HISTORY_MESSAGES,
+  DEFAULT_HISTORY_MINUTES,
+} from './services/chat-message-window';
 import { ChatbotQueue } from './services/chatbot-queue';
 import { ConfigManager } from './services/config-manager';
+import { ConversationSummarizer } from './services/conversation-summarizer';
+import { ProviderRegistry } from './services/provider-registry';
 import { StreamService } from './services/stream.service';
+import { StrikeLedger } from './services/strike-ledger';
+import { UsageTracker } from './services/usage-tracker';
+import {
+  DEFAULT_MEMORY_SETTINGS,
+  ViewerMemoryStore,
+} from './services/viewer-memory-store';
 
 export class App {
   private chatListener!: ChatListenerService;
@@ -17,7 +33,13 @@ export class App {
   private ai!: AIService;
   private tokenManager!: TokenManager;
   private responseCoordinator!: BotResponseCoordinator;
+  private commandRouter!: CommandRouter;
   private configManager!: ConfigManager;
+  private memoryStore!: ViewerMemoryStore;
+  private summarizer!: ConversationSummarizer;
+  private chatLog!: ChatLogStore;
+  private usageTracker!: UsageTracker;
+  private strikeLedger!: StrikeLedger;
   private streamService?: StreamService;
   private logger = createLogger('App');
 
@@ -46,23 +68,67 @@ export class App {
       clientSecret: env.TWITCH_CLIENT_SECRET,
       dbPath: env.TOKEN_DB_PATH,
     });
-    this.ai = new AIService();
-    this.messageWindow = new ChatMessageWindow();
+    this.usageTracker = new UsageTracker(this.configManager);
+    this.ai = new AIService(
+      new ProviderRegistry(this.configManager),
+      this.usageTracker
+    );
+    const history = this.configManager.getHistorySettings();
+    this.messageWindow = new ChatMessageWindow(
+      history.maxMessages ?? DEFAULT_HISTORY_MESSAGES,
+      (history.maxAgeMinutes ?? DEFAULT_HISTORY_MINUTES) * 60_000
+    );
+    this.summarizer = new ConversationSummarizer(this.ai, this.configManager);
+    this.messageWindow.on('messages:evicted', (messages) =>
+      this.summarizer.addEvicted(messages)
+    );
     const queue = new ChatbotQueue();
+    this.memoryStore = new ViewerMemoryStore();
+    this.pruneViewerMemories();
+    this.chatLog = new ChatLogStore();
+    this.strikeLedger = new StrikeLedger();
 
     // Bot management
-    this.botManager = new BotManager();
-    await this.botManager.initialize(this.tokenManager, this.configManager);
+    this.botManager = new BotManager(queue);
+    await this.botManager.initialize(
+      this.tokenManager,
+      this.configManager,
+      this.strikeLedger
+    );
+    this.botManager.onModerationAction((event) =>
+      this.chatLog.logModeration(event)
+    );
 
     // Response coordination
     this.responseCoordinator = new BotResponseCoordinator(
       this.ai,
       queue,
       this.messageWindow,
-      this.botManager.getBots(),
-      this.configManager
+      this.botManager,
+      this.configManager,
+      this.memoryStore,
+      this.summarizer
     );
 
+    // Chat commands
+    this.commandRouter = new CommandRouter((msg, text) =>
+      this.botManager.sayAsCommandResponder(
+        text,
+        { user: msg.user, messageId: msg.id },
+        this.configManager.getCommandSettings().responder
+      )
+    );
+    this.applyCommandPrefix();
+    const commandDeps = {
+      botManager: this.botManager,
+      configManager: this.configManager,
+      responseCoordinator: this.responseCoordinator,
+      memoryStore: this.memoryStore,
+      usageTracker: this.usageTracker,
+    };
+    registerGeneralCommands(this.commandRouter, commandDeps);
+    registerControlCommands(this.commandRouter, commandDeps);
+
     // Chat listener
     this.chatListener = new ChatListenerService();
   }
@@ -76,18 +142,39 @@ export class App {
       tokenManager: this.tokenManager,
     });
 
-    this.streamService.on('stream:online', async () => this.connectAll());
+    this.streamService.on('stream:online', async (streamId) =>
+      this.connectAll(streamId)
+    );
     this.streamService.on('stream:offline', () => this.disconnectAll());
+    await this.streamService.checkAlreadyOnline();
   }
 
-  private async connectAll() {
+  private async connectAll(streamId: string) {
+    this.chatLog.startSession(streamId);
+    this.usageTracker.startSession(streamId);
+    this.restoreChatHistory(streamId);
+
     // Set up message listeners
     this.chatListener.on('message', (msg) => {
+      this.chatLog.logMessage(
+        msg,
+        this.configManager.isBotName(msg.user) ? 'bot' : 'chat'
+      );
       this.botManager.handleMessage(msg);
+
+      // Known commands are intercepted so they never trigger AI replies
+      if (this.commandRouter.handle(msg)) {
+        return;
+      }
       this.responseCoordinator.handleIncomingMessage(msg);
     });
 
+    this.chatListener.on('moderation', (event) =>
+      this.chatLog.logModeration(event)
+    );
+
     this.chatListener.start();
+    this.summarizer.start();
     await this.botManager.connectAll(this.ai);
   }
 
@@ -95,6 +182,55 @@ export class App {
     this.chatListener.stop();
     this.responseCoordinator.stop();
     this.botManager.disconnectAll();
+
+    // Each stream session starts with a fresh chat history
+    this.summarizer.reset();
+    this.messageWindow.clear();
+
+    // Live tweaks from chat commands only last for one stream
+    this.botManager.clearRuntimeState();
+    this.configManager.clearRuntimeOverrides();
+
+    this.chatLog.endSession();
+    this.usageTracker.endSession();
+    this.pruneViewerMemories();
+  }
+
+  /**
+   * Warm the chat window back up after a restart mid-stream
+   */
+  private restoreChatHistory(streamId: string) {
+    const history = this.configManager.getHistorySettings();
+    const maxAgeMs =
+      (history.maxAgeMinutes ?? DEFAULT_HISTORY_MINUTES) * 60_000;
+    const messages = this.chatLog.getRecentMessages(
+      streamId,
+      Date.now() - maxAgeMs,
+      history.maxMessages ?? DEFAULT_HISTORY_MESSAGES
+    );
+
+    for (const msg of messages) {
+      this.messageWindow.addMessage(msg);
+    }
+    if (messages.length > 0) {
+      this.logger.info(
+        { streamId, count: messages.length },
+        'Restored chat history from log'
+      );
+    }
+  }
+
+  private applyCommandPrefix() {
+    const prefix = this.configManager.getCommandSettings().prefix ?? '!';
+    this.commandRouter.setPrefix(prefix);
+    this.botManager.setCommandPrefix(prefix);
+  }
+
+  private pruneViewerMemories() {
+    this.memoryStore.pruneExpired(
+      this.configManager.getMemorySettings().decayDays ??
+        DEFAULT_MEMORY_SETTINGS.decayDays
+    );
   }
 
   private updateAllBotConfigs() {
@@ -108,7 +244,10 @@ export class App {
     for (const botConfig of bots) {
       if (botConfig.role === 'moderator') {
         // Update moderator bot config
-        this.botManager.updateModeratorConfig(botConfig);
+        this.botManager.updateModeratorConfig(
+          botConfig,
+          this.configManager.getModerationSettings()
+        );
       } else {
         // Update regular bot config
         const bot = botServices.get(botConfig.name);
@@ -120,6 +259,7 @@ export class App {
 
     // Let response coordinator refresh its view
     this.responseCoordinator.refreshBotConfigs(this.configManager);
+    this.applyCommandPrefix();
   }
 
   // Getter for signal handler access
@@ -145,6 +285,28 @@ export class App {
       this.responseCoordinator.destroy();
     }
 
+    if (this.summarizer) {
+      this.summarizer.reset();
+    }
+
+    if (this.memoryStore) {
+      this.memoryStore.close();
+    }
+
+    if (this.chatLog) {
+      this.chatLog.endSession();
+      this.chatLog.close();
+    }
+
+    if (this.usageTracker) {
+      this.usageTracker.endSession();
+      this.usageTracker.close();
+    }
+
+    if (this.strikeLedger) {
+      this.strikeLedger.close();
+    }
+
     // Stop config manager
     if (this.configManager) {
       this.configManager.destroy();
@@ -0,0 +1,158 @@
+import { createLogger } from '@/shared/logger';
+import type { ChatMessage, Role } from '../services/chat-listener.service';
+
+const WHITESPACE_PATTERN = /\s+/;
+
+const ROLE_RANK: Record<Role, number> = {
+  user: 0,
+  moderator: 1,
+  broadcaster: 2,
+};
+
+export interface CommandContext {
+  msg: ChatMessage;
+  /** Whitespace-separated words after the command name */
+  args: string[];
+  /** Everything after the command name, untouched */
+  rawArgs: string;
+  reply(text: string): void;
+}
+
+export interface ChatCommand {
+  name: string;
+  aliases?: string[];
+  /** Usage hint shown by !help, e.g. `<bot> <question>` */
+  args?: string;
+  description: string;
+  requiredRole: Role;
+  /** Shared cooldown; broadcaster and mods are never held back */
+  cooldownSeconds?: number;
+  handler(ctx: CommandContext): void | Promise<void>;
+}
+
+export type CommandReply = (msg: ChatMessage, text: string) => void;
+
+export function hasRole(role: Role, requiredRole: Role): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[requiredRole];
+}
+
+/**
+ * Routes `!commands` from chat to registered handlers. Runs before the
+ * response coordinator so commands never trigger AI replies.
+ */
+export class CommandRouter {
+  private readonly commands = new Map<string, ChatCommand>();
+  private readonly lookup = new Map<string, ChatCommand>();
+  private readonly lastUsed = new Map<string, number>();
+  private readonly reply: CommandReply;
+  private prefix: string;
+  private readonly logger = createLogger('CommandRouter');
+
+  constructor(reply: CommandReply, prefix = '!') {
+    this.reply = reply;
+    this.prefix = prefix;
+  }
+
+  register(command: ChatCommand): void {
+    for (const name of [command.name, ...(command.aliases ?? [])]) {
+      const key = name.toLowerCase();
+      if (this.lookup.has(key)) {
+        throw new Error(`Command name already registered: ${name}`);
+      }
+      this.lookup.set(key, command);
+    }
+
+    this.commands.set(command.name, command);
+  }
+
+  setPrefix(prefix: string): void {
+    this.prefix = prefix;
+  }
+
+  getPrefix(): string {
+    return this.prefix;
+  }
+
+  getCommands(): ChatCommand[] {
+    return [...this.commands.values()];
+  }
+
+  findCommand(name: string): ChatCommand | undefined {
+    return this.lookup.get(name.toLowerCase());
+  }
+
+  /**
+   * Returns true when the message was a known command and must not be
+   * handled any further, even if it was not permitted or on cooldown.
+   * Unknown commands return false so bots can still reply to them.
+   */
+  handle(msg: ChatMessage): boolean {
+    const text = msg.message.trim();
+    if (!text.startsWith(this.prefix)) {
+      return false;
+    }
+
+    const body = text.slice(this.prefix.length);
+    const [name = '', ...args] = body.split(WHITESPACE_PATTERN);
+    const command = this.findCommand(name);
+
+    if (!command) {
+      this.logger.debug({ user: msg.user, name }, 'Unknown command');
+      return false;
+    }
+
+    if (!hasRole(msg.role, command.requiredRole)) {
+      this.logger.info(
+        { user: msg.user, command: command.name },
+        'Command not permitted for role'
+      );
+      return true;
+    }
+
+    if (this.isOnCooldown(command, msg.role)) {
+      this.logger.debug(
+        { user: msg.user, command: command.name },
+        'Command on cooldown'
+      );
+      return true;
+    }
+
+    this.lastUsed.set(command.name, Date.now());
+    this.run(command, {
+      msg,
+      args: args.filter(Boolean),
+      rawArgs: body.slice(name.length).trim(),
+      reply: (replyText) => this.reply(msg, replyText),
+    });
+
+    return true;
+  }
+
+  private isOnCooldown(command: ChatCommand, role: Role): boolean {
+    if (!command.cooldownSeconds || hasRole(role, 'moderator')) {
+      return false;
+    }
+
+    const lastUsed = this.lastUsed.get(command.name);
+    return (
+      lastUsed !== undefined &&
+      Date.now() - lastUsed < command.cooldownSeconds * 1000
+    );
+  }
+
+  private async run(command: ChatCommand, ctx: CommandContext): Promise<void> {
+    this.logger.info(
+      { user: ctx.msg.user, command: command.name, args: ctx.args },
+      'Running command'
+    );
+
+    try {
+      await command.handler(ctx);
+    } catch (error) {
+      this.logger.error(
+        { err: error, command: command.name },
+        'Command handler failed'
+      );
+    }
+  }
+}
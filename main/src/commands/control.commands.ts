@@ -0,0 +1,270 @@
+import type { BotManager } from '../services/bot-manager';
+import type { BotResponseCoordinator } from '../services/bot-response-coordinator';
+import type { ConfigManager } from '../services/config-manager';
+import type { UsageTracker } from '../services/usage-tracker';
+import type { ViewerMemoryStore } from '../services/viewer-memory-store';
+import type { CommandContext, CommandRouter } from './command-router';
+
+const MAX_MUTE_MINUTES = 240;
+
+/**
+ * Broadcaster/mod commands for managing bots live. Changes are runtime
+ * overrides only; they are cleared when the stream goes offline.
+ */
+export function registerControlCommands(
+  router: CommandRouter,
+  {
+    botManager,
+    configManager,
+    responseCoordinator,
+    memoryStore,
+    usageTracker,
+  }: {
+    botManager: BotManager;
+    configManager: ConfigManager;
+    responseCoordinator: BotResponseCoordinator;
+    memoryStore: ViewerMemoryStore;
+    usageTracker: UsageTracker;
+  }
+): void {
+  // Resolve the first argument to a bot, replying with usage if it isn't one
+  const resolveBot = (
+    { args, reply }: CommandContext,
+    usage: string
+  ): string | undefined => {
+    const botName = botManager.findBotName(args[0] ?? '');
+    if (!botName) {
+      reply(`Usage: ${router.getPrefix()}${usage}`);
+    }
+    return botName;
+  };
+
+  router.register({
+    name: 'pause',
+    args: '<bot|all>',
+    description: 'Stop a bot (or all bots) from replying',
+    requiredRole: 'moderator',
+    handler: (ctx) => {
+      if (ctx.args[0]?.toLowerCase() === 'all') {
+        botManager.pauseBot();
+        responseCoordinator.cancelPendingResponses();
+        ctx.reply('All bots paused');
+        return;
+      }
+
+      const botName = resolveBot(ctx, 'pause <bot|all>');
+      if (botName) {
+        botManager.pauseBot(botName);
+        responseCoordinator.cancelPendingResponses(botName);
+        ctx.reply(`${botName} paused`);
+      }
+    },
+  });
+
+  router.register({
+    name: 'resume',
+    args: '<bot|all>',
+    description: 'Let a paused or muted bot (or all bots) reply again',
+    requiredRole: 'moderator',
+    handler: (ctx) => {
+      if (ctx.args[0]?.toLowerCase() === 'all') {
+        botManager.resumeBot();
+        ctx.reply('All bots resumed');
+        return;
+      }
+
+      const botName = resolveBot(ctx, 'resume <bot|all>');
+      if (botName) {
+        botManager.resumeBot(botName);
+        ctx.reply(`${botName} resumed`);
+      }
+    },
+  });
+
+  router.register({
+    name: 'mute',
+    args: '<bot> <minutes>',
+    description: 'Silence a bot for a number of minutes',
+    requiredRole: 'moderator',
+    handler: (ctx) => {
+      const botName = resolveBot(ctx, 'mute <bot> <minutes>');
+      const minutes = Number(ctx.args[1]);
+      if (!botName) {
+        return;
+      }
+      if (!(minutes > 0 && minutes <= MAX_MUTE_MINUTES)) {
+        ctx.reply(`Minutes must be between 1 and ${MAX_MUTE_MINUTES}`);
+        return;
+      }
+
+      botManager.muteBot(botName, minutes);
+      responseCoordinator.cancelPendingResponses(botName);
+      ctx.reply(`${botName} muted for ${minutes} min`);
+    },
+  });
+
+  router.register({
+    name: 'temp',
+    aliases: ['temperature'],
+    args: '<bot> <0-2>',
+    description: "Change a bot's temperature until the stream ends",
+    requiredRole: 'moderator',
+    handler: (ctx) => {
+      const botName = resolveBot(ctx, 'temp <bot> <0-2>');
+      const temperature = Number(ctx.args[1]);
+      if (!botName) {
+        return;
+      }
+      if (!(temperature >= 0 && temperature <= 2)) {
+        ctx.reply('Temperature must be between 0 and 2');
+        return;
+      }
+
+      configManager.setRuntimeOverride(botName, { temperature });
+      ctx.reply(`${botName} temperature set to ${temperature}`);
+    },
+  });
+
+  router.register({
+    name: 'chance',
+    args: '<bot> <0-1>',
+    description:
+      "Change a bot's random reply probability until the stream ends",
+    requiredRole: 'moderator',
+    handler: (ctx) => {
+      const botName = resolveBot(ctx, 'chance <bot> <0-1>');
+      const replyChance = Number(ctx.args[1]);
+      if (!botName) {
+        return;
+      }
+      if (!(replyChance >= 0 && replyChance <= 1)) {
+        ctx.reply('Reply chance must be between 0 and 1');
+        return;
+      }
+
+      configManager.setRuntimeOverride(botName, { replyChance });
+      ctx.reply(`${botName} reply chance set to ${replyChance}`);
+    },
+  });
+
+  router.register({
+    name: 'reloadconfig',
+    aliases: ['reload'],
+    description: 'Reload bots.toml',
+    requiredRole: 'moderator',
+    handler: async ({ reply }) => {
+      try {
+        await configManager.loadConfig();
+        configManager.emit('config:updated');
+        reply('Config reloaded');
+      } catch {
+        reply('Config reload failed, keeping the current config');
+      }
+    },
+  });
+
+  router.register({
+    name: 'leave',
+    args: '<bot>',
+    description: 'Make a bot leave chat',
+    requiredRole: 'moderator',
+    handler: (ctx) => {
+      const botName = resolveBot(ctx, 'leave <bot>');
+      if (botName) {
+        responseCoordinator.cancelPendingResponses(botName);
+        botManager.leaveBot(botName);
+        ctx.reply(`${botName} left chat`);
+      }
+    },
+  });
+
+  router.register({
+    name: 'rejoin',
+    args: '<bot>',
+    description: 'Bring a bot back to chat',
+    requiredRole: 'moderator',
+    handler: (ctx) => {
+      const botName = resolveBot(ctx, 'rejoin <bot>');
+      if (botName) {
+        botManager.rejoinBot(botName);
+        ctx.reply(`${botName} rejoined chat`);
+      }
+    },
+  });
+
+  router.register({
+    name: 'forget',
+    args: '<viewer>',
+    description: "Wipe every bot's memories of a viewer",
+    requiredRole: 'moderator',
+    handler: ({ args, reply }) => {
+      const viewer = args[0]?.replace('@', '');
+      if (!viewer) {
+        reply(`Usage: ${router.getPrefix()}forget <viewer>`);
+        return;
+      }
+
+      const removed = memoryStore.forgetViewer(viewer);
+      reply(`Forgot ${removed} memories of ${viewer}`);
+    },
+  });
+
+  router.register({
+    name: 'confirmban',
+    args: '<viewer>',
+    description: 'Carry out a ban the moderator bot is waiting on',
+    requiredRole: 'moderator',
+    handler: async ({ args, reply }) => {
+      const viewer = args[0]?.replace('@', '');
+      if (!viewer) {
+        reply(`Usage: ${router.getPrefix()}confirmban <viewer>`);
+        return;
+      }
+
+      reply(
+        (await botManager.confirmBan(viewer))
+          ? `${viewer} banned`
+          : `No pending ban for ${viewer}`
+      );
+    },
+  });
+
+  router.register({
+    name: 'dismissban',
+    args: '<viewer>',
+    description: 'Drop a ban the moderator bot is waiting on',
+    requiredRole: 'moderator',
+    handler: ({ args, reply }) => {
+      const viewer = args[0]?.replace('@', '');
+      if (!viewer) {
+        reply(`Usage: ${router.getPrefix()}dismissban <viewer>`);
+        return;
+      }
+
+      reply(
+        botManager.dismissBan(viewer)
+          ? `Ban for ${viewer} dismissed`
+          : `No pending ban for ${viewer}`
+      );
+    },
+  });
+
+  router.register({
+    name: 'spend',
+    description: 'Show estimated AI spend per bot today and this stream',
+    requiredRole: 'moderator',
+    handler: ({ reply }) => {
+      const summary = usageTracker.getSummary();
+      if (summary.length === 0) {
+        reply('No AI spend recorded today');
+        return;
+      }
+
+      const lines = summary.map(
+        (bot) =>
+          `${bot.botName} $${bot.sessionUsd.toFixed(3)}/$${bot.todayUsd.toFixed(3)}`
+      );
+      reply(`Spend (stream/today): ${lines.join(', ')}`);
+    },
+  });
+}
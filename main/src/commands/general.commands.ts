@@ -0,0 +1,105 @@
+import type { BotManager } from '../services/bot-manager';
+import type { BotResponseCoordinator } from '../services/bot-response-coordinator';
+import type { ConfigManager } from '../services/config-manager';
+import type { ViewerMemoryStore } from '../services/viewer-memory-store';
+import { type CommandRouter, hasRole } from './command-router';
+
+/**
+ * Viewer-facing commands: !bots, !ask, !forgetme and !help
+ */
+export function registerGeneralCommands(
+  router: CommandRouter,
+  {
+    botManager,
+    configManager,
+    responseCoordinator,
+    memoryStore,
+  }: {
+    botManager: BotManager;
+    configManager: ConfigManager;
+    responseCoordinator: BotResponseCoordinator;
+    memoryStore: ViewerMemoryStore;
+  }
+): void {
+  router.register({
+    name: 'bots',
+    description: 'List the bots in chat',
+    requiredRole: 'user',
+    cooldownSeconds: 30,
+    handler: ({ reply }) => {
+      const personas = botManager.getAvailableBotNames().map((name) => {
+        const description = configManager.getBot(name)?.description;
+        return description ? `${name} (${description})` : name;
+      });
+
+      reply(
+        personas.length > 0
+          ? `Bots in chat: ${personas.join(', ')}`
+          : 'No bots are active right now'
+      );
+    },
+  });
+
+  router.register({
+    name: 'ask',
+    args: '<bot> <question>',
+    description: 'Ask a specific bot a question',
+    requiredRole: 'user',
+    handler: ({ msg, args, reply }) => {
+      const [target = '', ...questionWords] = args;
+      const question = questionWords.join(' ');
+      const botName = botManager.findBotName(target);
+
+      if (!(botName && question)) {
+        reply(`Usage: ${router.getPrefix()}ask <bot> <question>`);
+        return;
+      }
+
+      if (!botManager.isBotAvailable(botName)) {
+        reply(`${botName} is taking a break right now`);
+        return;
+      }
+
+      responseCoordinator.askBot(botName, { ...msg, message: question });
+    },
+  });
+
+  router.register({
+    name: 'forgetme',
+    description: 'Make every bot forget what it remembers about you',
+    requiredRole: 'user',
+    handler: ({ msg, reply }) => {
+      memoryStore.forgetViewer(msg.userId);
+      reply('Done, the bots have forgotten everything about you');
+    },
+  });
+
+  router.register({
+    name: 'help',
+    aliases: ['commands'],
+    args: '[command]',
+    description: 'List commands or explain one',
+    requiredRole: 'user',
+    cooldownSeconds: 30,
+    handler: ({ msg, args, reply }) => {
+      const prefix = router.getPrefix();
+      const [name] = args;
+
+      if (name) {
+        const command = router.findCommand(name.replace(prefix, ''));
+        if (command) {
+          const usage = command.args ? ` ${command.args}` : '';
+          reply(`${prefix}${command.name}${usage} - ${command.description}`);
+          return;
+        }
+      }
+
+      const available = router
+        .getCommands()
+        .filter((command) => hasRole(msg.role, command.requiredRole))
+        .map((command) => `${prefix}${command.name}`);
+
+      reply(`Commands: ${available.join(', ')}`);
+    },
+  });
+}
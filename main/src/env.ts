@@ -16,7 +16,8 @@ export const env = createEnv({
       .min(1)
       .describe('Stable subdomain for localtunnel (e.g., my-twitch-auth)')
       .optional(),
-    OPENROUTER_KEY: z.string().min(1),
+    // Only needed by bots using the built-in openrouter provider
+    OPENROUTER_KEY: z.string().min(1).optional(),
     DISABLE_EVENTSUB: z
       .string()
       // transform to boolean using preferred coercion logic
@@ -25,6 +26,14 @@ export const env = createEnv({
       .default(false),
     NODE_ENV: z.enum(['development', 'production']).default('development'),
     TOKEN_DB_PATH: z.string().default('./tokens.db'),
+    // Defaults to memory.db next to the token database
+    MEMORY_DB_PATH: z.string().optional(),
+    // Defaults to chatlog.db next to the token database
+    CHAT_LOG_DB_PATH: z.string().optional(),
+    // Defaults to usage.db next to the token database
+    USAGE_DB_PATH: z.string().optional(),
+    // Defaults to strikes.db next to the token database
+    STRIKE_DB_PATH: z.string().optional(),
     BOT_CONFIG_PATH: z.string().default('./config/bots.toml'),
   },
   runtimeEnv: process.env,
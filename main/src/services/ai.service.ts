@@ -1,17 +1,57 @@
-import { createOpenRouter } from '@openrouter/ai-sdk-provider';
-import { generateObject, generateText, type ModelMessage } from 'ai';
+import {
+  generateObject,
+  generateText,
+  type LanguageModelUsage,
+  type ModelMessage,
+} from 'ai';
 import z from 'zod';
 import { createLogger } from '@/shared/logger';
-import { env } from '../env';
 import type { ChatMessage } from './chat-listener.service';
-import type { BotConfig } from './config-manager';
+import type {
+  BotConfig,
+  MessageComplexity,
+  ModerationRule,
+} from './config-manager';
+import {
+  EmptyModelResponseError,
+  ModelCircuitBreaker,
+} from './model-circuit-breaker';
+import { type RouteRequest, routeModel } from './model-router';
+import {
+  buildModerationPrompt,
+  buildModerationSchema,
+  type ModerationViolation,
+} from './moderation-policy';
+import { DEFAULT_PROVIDER, type ProviderRegistry } from './provider-registry';
+import type { Strike } from './strike-ledger';
+import type { UsagePurpose, UsageTracker } from './usage-tracker';
+import type { ViewerMemory } from './viewer-memory-store';
+
+// Per model attempt, including any retries on that model
+const DEFAULT_TIMEOUT_SECONDS = 20;
+// Falling back to the next model beats retrying a busy one
+const DEFAULT_MAX_RETRIES = 0;
+// Memory, summary and routing calls run off the reply path
+const BACKGROUND_TIMEOUT_MS = 30_000;
+const BACKGROUND_MAX_RETRIES = 1;
+
+export interface RecalledMemories {
+  viewer: string;
+  memories: ViewerMemory[];
+}
 
 export class AIService {
-  private openrouter;
+  private readonly providers: ProviderRegistry;
+  // Per provider, since the same model ID can be healthy on one and not another
+  private readonly breakers = new Map<string, ModelCircuitBreaker>();
+  private readonly usage: UsageTracker;
+  // Warned once when the moderator is muted, again after it recovers
+  private moderatorMuted = false;
   private logger = createLogger('AIService');
 
-  constructor() {
-    this.openrouter = createOpenRouter({ apiKey: env.OPENROUTER_KEY });
+  constructor(providers: ProviderRegistry, usage: UsageTracker) {
+    this.providers = providers;
+    this.usage = usage;
   }
 
   async generateResponse({
@@ -19,13 +59,36 @@ export class AIService {
     botConfig,
     triggerMessage,
     context,
+    otherBots,
+    recalled,
+    chatSummary,
+    route,
+    abortSignal,
   }: {
     botName: string;
     botConfig: BotConfig;
     triggerMessage: string;
-    context?: Array<{ user: string; message: string; role: string }>;
+    context?: ChatMessage[];
+    otherBots?: Array<{ name: string; description?: string }>;
+    recalled?: RecalledMemories;
+    chatSummary?: string;
+    /** Picks a model tier from the bot's routing rules */
+    route?: RouteRequest;
+    /** Cancels the generation, e.g. when the bot is paused */
+    abortSignal?: AbortSignal;
   }): Promise<string | null> {
     try {
+      const budgeted = await this.resolveBotConfig(
+        botName,
+        botConfig,
+        route,
+        abortSignal
+      );
+      if (!budgeted) {
+        this.logger.debug({ botName }, 'Muted by spend cap');
+        return null;
+      }
+
       const messages: ModelMessage[] = [];
 
       if (context && context.length > 0) {
@@ -37,18 +100,52 @@ export class AIService {
         content: triggerMessage,
       });
 
-      const result = await generateText({
-        model: this.openrouter.chat(botConfig.model, {
-          models: [],
-        }),
-        system: this.buildSystemPrompt(botName, botConfig),
-        messages,
-        temperature: botConfig.temperature || 0.7,
-        maxOutputTokens: botConfig.maxTokens || 150,
-      });
+      const system = this.buildSystemPrompt(
+        botName,
+        budgeted,
+        otherBots,
+        recalled,
+        chatSummary
+      );
+
+      const { model, result } = await this.getBreaker(budgeted.provider).run(
+        this.getModelChain(budgeted),
+        async (candidate) => {
+          const startedAt = performance.now();
+          const { text, usage } = await generateText({
+            model: this.providers.getModel(budgeted.provider, candidate),
+            system,
+            messages,
+            temperature: budgeted.temperature ?? 0.7,
+            maxOutputTokens: budgeted.maxTokens || 150,
+            ...this.getCallLimits(budgeted, abortSignal),
+          });
+          this.recordUsage({
+            botName,
+            purpose: 'reply',
+            provider: budgeted.provider,
+            model: candidate,
+            usage,
+            startedAt,
+          });
 
-      return result.text;
+          if (!text.trim()) {
+            throw new EmptyModelResponseError(candidate);
+          }
+          return text;
+        },
+        abortSignal
+      );
+
+      if (model !== budgeted.model) {
+        this.logger.info({ botName, model }, 'Responded with fallback model');
+      }
+      return result;
     } catch (error) {
+      if (abortSignal?.aborted) {
+        this.logger.info({ botName }, 'Response generation cancelled');
+        return null;
+      }
       this.logger.error(
         { err: error },
         `Error generating AI response for ${botName}`
@@ -57,73 +154,241 @@ export class AIService {
     }
   }
 
+  /**
+   * Pull lasting facts and relationship notes about one viewer out of a
+   * conversation, skipping anything the bot already remembers
+   */
+  async extractViewerMemories({
+    botName,
+    provider,
+    model,
+    viewer,
+    conversation,
+    existing,
+  }: {
+    botName: string;
+    provider?: string;
+    model: string;
+    viewer: string;
+    conversation: Pick<ChatMessage, 'user' | 'message'>[];
+    existing: ViewerMemory[];
+  }): Promise<ViewerMemory[] | null> {
+    const known =
+      existing.length > 0
+        ? existing.map((memory) => `- ${memory.content}`).join('\n')
+        : '(nothing yet)';
+
+    try {
+      const { result: memories } = await this.getBreaker(provider).run(
+        [model],
+        async (candidate) => {
+          const startedAt = performance.now();
+          const { object, usage } = await generateObject({
+            model: this.providers.getModel(provider, candidate),
+            schema: z.object({
+              memories: z
+                .array(
+                  z.object({
+                    kind: z
+                      .enum(['fact', 'relationship'])
+                      .describe(
+                        'fact: about the viewer; relationship: how they treat or address you'
+                      ),
+                    content: z
+                      .string()
+                      .max(120)
+                      .describe('One short sentence about the viewer'),
+                  })
+                )
+                .max(3),
+            }),
+            system: `You maintain ${botName}'s long-term memory of Twitch viewers.
+Read the conversation and note anything worth remembering about ${viewer} in future streams.
+
+Good memories are lasting and specific, e.g.:
+- "Is learning Rust"
+- "Calls ${botName} a nickname"
+- "Has a cat named Miso"
+
+Do NOT record:
+- Small talk, greetings or one-off jokes
+- Anything about other viewers
+- Sensitive details (health, address, real name, age) or anything said in anger
+- Anything already known
+
+Already known about ${viewer}:
+${known}
+
+Return an empty array when there is nothing new worth keeping.`,
+            prompt: conversation
+              .map((m) => `${m.user}: ${m.message}`)
+              .join('\n'),
+            temperature: 0.2,
+            maxOutputTokens: 200,
+            ...this.getBackgroundLimits(),
+          });
+          this.recordUsage({
+            botName,
+            purpose: 'memory',
+            provider,
+            model: candidate,
+            usage,
+            startedAt,
+          });
+          return object.memories;
+        }
+      );
+
+      return memories;
+    } catch (error) {
+      this.logger.error(
+        { err: error, botName, viewer },
+        'Error extracting viewer memories'
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Fold messages that left the chat window into the running summary of
+   * the stream so far
+   */
+  async summarizeConversation({
+    provider,
+    model,
+    previousSummary,
+    messages,
+    maxTokens,
+    abortSignal,
+  }: {
+    provider?: string;
+    model: string;
+    previousSummary: string;
+    messages: Pick<ChatMessage, 'user' | 'message'>[];
+    maxTokens: number;
+    abortSignal?: AbortSignal;
+  }): Promise<string | null> {
+    try {
+      const { result } = await this.getBreaker(provider).run(
+        [model],
+        async (candidate) => {
+          const startedAt = performance.now();
+          const response = await generateText({
+            model: this.providers.getModel(provider, candidate),
+            system: `You keep a running summary of a Twitch chat for bots that join the conversation late.
+Update the summary with the new messages. Keep topics still being discussed, running jokes, notable events (raids, subs, wins, fails) and who is involved. Drop anything stale.
+Write plain sentences, no headings, no preamble. Stay under ${Math.round(maxTokens * 0.75)} words.`,
+            prompt: `Current summary:\n${previousSummary || '(none yet)'}\n\nNew messages:\n${messages.map((m) => `${m.user}: ${m.message}`).join('\n')}`,
+            temperature: 0.3,
+            maxOutputTokens: maxTokens,
+            ...this.getBackgroundLimits(abortSignal),
+          });
+          this.recordUsage({
+            botName: 'summary',
+            purpose: 'summary',
+            provider,
+            model: candidate,
+            usage: response.usage,
+            startedAt,
+          });
+          return response;
+        },
+        abortSignal
+      );
+
+      return result.text.trim() || null;
+    } catch (error) {
+      if (abortSignal?.aborted) {
+        return null;
+      }
+      this.logger.error({ err: error }, 'Error summarizing conversation');
+      return null;
+    }
+  }
+
   async generateModerationResponse({
     moderatorBotName,
     moderatorConfig,
     messages,
+    context = [],
+    rules,
+    guidelines,
+    strikes,
+    abortSignal,
   }: {
     moderatorBotName: string;
     moderatorConfig: BotConfig;
     messages: ChatMessage[];
-  }): Promise<{
-    violations: {
-      user: string;
-      reason: string;
-      duration: number;
-    }[];
-  } | null> {
+    /** Earlier chat shown for reference, never judged */
+    context?: ChatMessage[];
+    /** Channel rules from the moderation policy */
+    rules: ModerationRule[];
+    guidelines?: string;
+    /** Active strikes per viewer ID */
+    strikes?: Map<string, Strike[]>;
+    abortSignal?: AbortSignal;
+  }): Promise<{ violations: ModerationViolation[] } | null> {
+    if (rules.length === 0) {
+      return { violations: [] };
+    }
+
     const moderationMessages = this.buildModerationMessages(
       messages,
-      moderatorBotName
+      context,
+      moderatorBotName,
+      strikes
     );
+    const schema = buildModerationSchema(rules);
+    const system = buildModerationPrompt(rules, guidelines);
 
     try {
-      const { object } = await generateObject({
-        model: this.openrouter.chat(moderatorConfig.model),
-        schema: z.object({
-          violations: z.array(
-            z.object({
-              user: z
-                .string()
-                .describe('The username of the user that violated the rules'),
-              reason: z
-                .string()
-                .max(100)
-                .describe('The reason for the violation'),
-              duration: z
-                .number()
-                .min(1)
-                .max(60)
-                .describe('The duration of the timeout in seconds'),
-            })
-          ),
-        }),
-        system: `You are a moderator in this twitch chat. 
-Your task is to determine if any users have violated the rules.
-
-IMPORTANT: You MUST return an object with a key of "violations" and a value of an array of objects with the following keys:
-- user: The username of the violator
-- reason: Brief reason for the timeout (max 100 chars)
-- duration: Timeout duration in seconds (1-60)
-
-The rules are:
-1. No mention of "neckbeard" or "neckbearddiscord" in any form
-2. No mention of "discord" in any form  
-3. No misspelling of "discord" or "neckbeard"
-
-Each object in the array must have:
-- user: The username of the violator
-- reason: Brief reason for the timeout (max 100 chars)
-- duration: Timeout duration in seconds (1-60)`,
-        messages: moderationMessages,
-        temperature: moderatorConfig.temperature || 0.7,
-        maxOutputTokens: moderatorConfig.maxTokens || 150,
-      });
+      const budgeted = this.usage.applyBudget(moderatorConfig);
+      if (!budgeted) {
+        if (!this.moderatorMuted) {
+          this.logger.warn(
+            { moderatorBotName },
+            'Moderator muted by spend cap, model moderation is off'
+          );
+        }
+        this.moderatorMuted = true;
+        return null;
+      }
+      this.moderatorMuted = false;
+
+      const { result: object } = await this.getBreaker(budgeted.provider).run(
+        this.getModelChain(budgeted),
+        async (candidate) => {
+          const startedAt = performance.now();
+          const { object: violations, usage } = await generateObject({
+            model: this.providers.getModel(budgeted.provider, candidate),
+            ...this.getCallLimits(budgeted, abortSignal),
+            schema,
+            system,
+            messages: moderationMessages,
+            temperature: budgeted.temperature ?? 0.7,
+            maxOutputTokens: budgeted.maxTokens || 150,
+          });
+          this.recordUsage({
+            botName: moderatorBotName,
+            purpose: 'moderation',
+            provider: budgeted.provider,
+            model: candidate,
+            usage,
+            startedAt,
+          });
+          return violations;
+        },
+        abortSignal
+      );
 
       this.logger.info({ moderationResults: object }, 'Moderation results');
 
       return object;
     } catch (error) {
+      if (abortSignal?.aborted) {
+        this.logger.info({ moderatorBotName }, 'Moderation cancelled');
+        return null;
+      }
       this.logger.error(
         { err: error, moderationMessages },
         `Error generating moderation response for ${moderatorBotName}`
@@ -132,10 +397,182 @@ Each object in the array must have:
     }
   }
 
+  /**
+   * The config a reply is generated with: the routed tier, then any spend
+   * cap on top. Null when the bot is muted by its budget.
+   */
+  private async resolveBotConfig(
+    botName: string,
+    botConfig: BotConfig,
+    route?: RouteRequest,
+    abortSignal?: AbortSignal
+  ): Promise<BotConfig | null> {
+    if (route && botConfig.routing) {
+      const routed = await routeModel(botConfig, route, () =>
+        this.classifyComplexity(botName, botConfig, route.text, abortSignal)
+      );
+      if (routed.tier) {
+        this.logger.debug(
+          { botName, tier: routed.tier, model: routed.botConfig.model },
+          'Routed to model tier'
+        );
+      }
+      return this.usage.applyBudget(routed.botConfig);
+    }
+
+    return this.usage.applyBudget(botConfig);
+  }
+
+  /**
+   * Ask the bot's classifier model whether a message needs its stronger tier
+   */
+  private async classifyComplexity(
+    botName: string,
+    botConfig: BotConfig,
+    text: string,
+    abortSignal?: AbortSignal
+  ): Promise<MessageComplexity | null> {
+    const { classifierModel, classifierProvider } = botConfig.routing ?? {};
+    if (!classifierModel) {
+      this.logger.warn(
+        { botName },
+        'Routing rule needs complexity but no classifierModel is set'
+      );
+      return null;
+    }
+
+    const provider = classifierProvider ?? botConfig.provider;
+    try {
+      const { result } = await this.getBreaker(provider).run(
+        [classifierModel],
+        async (candidate) => {
+          const startedAt = performance.now();
+          const { object, usage } = await generateObject({
+            model: this.providers.getModel(provider, candidate),
+            schema: z.object({
+              complexity: z.enum(['simple', 'complex']),
+            }),
+            system: `Classify a Twitch chat message sent to a chat bot.
+simple: greetings, banter, reactions, jokes, short opinions.
+complex: real questions, requests for explanations or advice, anything needing knowledge or reasoning.`,
+            prompt: text,
+            temperature: 0,
+            maxOutputTokens: 20,
+            ...this.getBackgroundLimits(abortSignal),
+          });
+          this.recordUsage({
+            botName,
+            purpose: 'routing',
+            provider,
+            model: candidate,
+            usage,
+            startedAt,
+          });
+          return object.complexity;
+        },
+        abortSignal
+      );
+      return result;
+    } catch (error) {
+      this.logger.warn({ err: error, botName }, 'Complexity classifier failed');
+      return null;
+    }
+  }
+
+  /**
+   * Timeout and retry bounds for one model attempt of a reply or moderation
+   * call, cancelled early if `abortSignal` fires
+   */
+  private getCallLimits(
+    botConfig: BotConfig,
+    abortSignal?: AbortSignal
+  ): { abortSignal: AbortSignal; maxRetries: number } {
+    const timeoutMs =
+      (botConfig.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+
+    return {
+      abortSignal: this.withTimeout(timeoutMs, abortSignal),
+      maxRetries: botConfig.maxRetries ?? DEFAULT_MAX_RETRIES,
+    };
+  }
+
+  private getBackgroundLimits(abortSignal?: AbortSignal): {
+    abortSignal: AbortSignal;
+    maxRetries: number;
+  } {
+    return {
+      abortSignal: this.withTimeout(BACKGROUND_TIMEOUT_MS, abortSignal),
+      maxRetries: BACKGROUND_MAX_RETRIES,
+    };
+  }
+
+  private withTimeout(
+    timeoutMs: number,
+    abortSignal?: AbortSignal
+  ): AbortSignal {
+    const timeout = AbortSignal.timeout(timeoutMs);
+    return abortSignal ? AbortSignal.any([abortSignal, timeout]) : timeout;
+  }
+
+  private recordUsage({
+    botName,
+    purpose,
+    provider = DEFAULT_PROVIDER,
+    model,
+    usage,
+    startedAt,
+  }: {
+    botName: string;
+    purpose: UsagePurpose;
+    provider?: string | undefined;
+    model: string;
+    usage: LanguageModelUsage;
+    startedAt: number;
+  }): void {
+    try {
+      this.usage.record({
+        botName,
+        purpose,
+        provider,
+        model,
+        inputTokens: usage.inputTokens ?? 0,
+        outputTokens: usage.outputTokens ?? 0,
+        latencyMs: performance.now() - startedAt,
+      });
+    } catch (error) {
+      this.logger.warn(
+        { err: error, botName, model },
+        'Failed to record usage'
+      );
+    }
+  }
+
+  private getBreaker(provider = DEFAULT_PROVIDER): ModelCircuitBreaker {
+    let breaker = this.breakers.get(provider);
+    if (!breaker) {
+      breaker = new ModelCircuitBreaker();
+      this.breakers.set(provider, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Primary model followed by each fallback, in order
+   */
+  private getModelChain(botConfig: BotConfig): string[] {
+    return [botConfig.model, ...(botConfig.fallbackModels ?? [])];
+  }
+
   /**
    * Build system prompt for the bot
    */
-  private buildSystemPrompt(botName: string, botConfig: BotConfig): string {
+  private buildSystemPrompt(
+    botName: string,
+    botConfig: BotConfig,
+    otherBots: Array<{ name: string; description?: string }> = [],
+    recalled?: RecalledMemories,
+    chatSummary?: string
+  ): string {
     return `${botConfig.systemPrompt}\n\nYou are ${botName}. Critical instructions:
 - All messages you receive are formatted as "username: message content"
 - When you see "@${botName}" in a message, that user is talking directly TO YOU
@@ -144,34 +581,106 @@ Each object in the array must have:
 - Your messages are automatically sent from your ${botName} account
 - Do NOT roleplay as other users or bots
 - When you see "othername: message", that's just showing who said what - don't copy this format
-- Respond naturally as yourself without any prefixes or identifiers`;
+- Respond naturally as yourself without any prefixes or identifiers${this.buildOtherBotsSection(otherBots)}${this.buildSummarySection(chatSummary)}${this.buildMemorySection(recalled)}`;
+  }
+
+  private buildSummarySection(chatSummary?: string): string {
+    if (!chatSummary) {
+      return '';
+    }
+
+    return `\n\nEarlier in this stream (mostly older than the messages you can see):\n${chatSummary}`;
+  }
+
+  private buildMemorySection(recalled?: RecalledMemories): string {
+    if (!recalled || recalled.memories.length === 0) {
+      return '';
+    }
+
+    const lines = recalled.memories.map((memory) => `- ${memory.content}`);
+
+    return `\n\nWhat you remember about ${recalled.viewer} from earlier chats (bring it up only when it fits naturally):\n${lines.join('\n')}`;
+  }
+
+  private buildOtherBotsSection(
+    otherBots: Array<{ name: string; description?: string }>
+  ): string {
+    if (otherBots.length === 0) {
+      return '';
+    }
+
+    const lines = otherBots.map((bot) =>
+      bot.description ? `- ${bot.name}: ${bot.description}` : `- ${bot.name}`
+    );
+
+    return `\n\nOther bots in this chat (they are bots like you, not viewers):\n${lines.join('\n')}`;
   }
 
   private buildModerationMessages(
     messages: ChatMessage[],
-    moderatorBotName: string
+    context: ChatMessage[],
+    moderatorBotName: string,
+    strikes?: Map<string, Strike[]>
   ): ModelMessage[] {
     const moderationMessages: ModelMessage[] = [];
 
     const lowerModeratorBotName = moderatorBotName.toLowerCase();
 
-    for (const msg of messages) {
+    for (const msg of context) {
+      moderationMessages.push({
+        role: 'user' as const,
+        content: `(context) ${msg.user}: ${msg.message}`,
+      });
+    }
+
+    // Numbered by position in the batch so violations point at one message
+    for (const [index, msg] of messages.entries()) {
       if (msg.user.toLowerCase() === lowerModeratorBotName) {
         continue;
       }
 
       moderationMessages.push({
         role: 'user' as const,
-        content: `${msg.user}: ${msg.message}`,
+        content: `#${index} ${this.describeViewerStatus(msg, strikes?.get(msg.userId))}${msg.user}: ${msg.message}`,
       });
     }
 
     return moderationMessages;
   }
 
+  /**
+   * Status tags that help the moderator judge a message, e.g. first-time
+   * chatters are more likely to be spam bots
+   */
+  private describeViewerStatus(msg: ChatMessage, strikes?: Strike[]): string {
+    const tags: string[] = [];
+
+    if (msg.isFirstMessage) {
+      tags.push('first-time chatter');
+    }
+    if (msg.isVip) {
+      tags.push('VIP');
+    }
+    if (msg.isFounder) {
+      tags.push('founder');
+    } else if (msg.isSubscriber) {
+      tags.push('subscriber');
+    }
+    if (msg.bits > 0) {
+      tags.push(`cheered ${msg.bits} bits`);
+    }
+    if (strikes?.length) {
+      tags.push(
+        `${strikes.length} recent strikes: ${strikes.map((strike) => strike.rule).join(', ')}`
+      );
+    }
+
+    return tags.length > 0 ? `[${tags.join(', ')}] ` : '';
+  }
+
   private buildMessagesFromContext(
     messages: ModelMessage[],
-    context: Array<{ user: string; message: string; role: string }>,
+    context: ChatMessage[],
     botName: string
   ): void {
     for (const msg of context) {
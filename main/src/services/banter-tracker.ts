@@ -0,0 +1,67 @@
+import type { BanterSettings, BotConfig } from './config-manager';
+
+export const DEFAULT_BANTER_SETTINGS = {
+  maxTurns: 3,
+  humanSilenceSeconds: 120,
+  defaultAffinity: 0,
+} as const satisfies Required<BanterSettings>;
+
+/**
+ * Tracks bot-only conversation chains so bots can reply to each other
+ * without looping forever. A chain resets whenever a human speaks.
+ */
+export class BanterTracker {
+  private chainLength = 0;
+  private lastHumanMessageAt = 0;
+
+  recordHumanMessage(now = Date.now()): void {
+    this.chainLength = 0;
+    this.lastHumanMessageAt = now;
+  }
+
+  recordBotMessage(): void {
+    this.chainLength++;
+  }
+
+  get currentChainLength(): number {
+    return this.chainLength;
+  }
+
+  canContinue(settings: BanterSettings, now = Date.now()): boolean {
+    const maxTurns = settings.maxTurns ?? DEFAULT_BANTER_SETTINGS.maxTurns;
+    const humanSilenceSeconds =
+      settings.humanSilenceSeconds ??
+      DEFAULT_BANTER_SETTINGS.humanSilenceSeconds;
+
+    if (this.chainLength >= maxTurns) {
+      return false;
+    }
+
+    return now - this.lastHumanMessageAt < humanSilenceSeconds * 1000;
+  }
+
+  reset(): void {
+    this.chainLength = 0;
+    this.lastHumanMessageAt = 0;
+  }
+}
+
+/**
+ * How likely `botConfig` is to answer a message from `otherBotName`
+ */
+export function getBanterAffinity(
+  botConfig: BotConfig | undefined,
+  otherBotName: string,
+  settings: BanterSettings
+): number {
+  const lowerOtherBotName = otherBotName.toLowerCase();
+  const affinity = Object.entries(botConfig?.banter?.affinity ?? {}).find(
+    ([name]) => name.toLowerCase() === lowerOtherBotName
+  );
+
+  return (
+    affinity?.[1] ??
+    settings.defaultAffinity ??
+    DEFAULT_BANTER_SETTINGS.defaultAffinity
+  );
+}
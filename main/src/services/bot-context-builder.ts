@@ -0,0 +1,116 @@
+import type { ChatMessage } from './chat-listener.service';
+import type { ContextSettings } from './config-manager';
+
+export const DEFAULT_CONTEXT_SETTINGS = {
+  maxTokens: 800,
+  maxAgeMinutes: 10,
+  excludeOtherBots: false,
+  preferInvolved: false,
+} as const satisfies Required<ContextSettings>;
+
+// Rough characters per token for each model family's tokenizer. Chat is
+// short, slangy and emote-heavy, so these sit below the usual prose ratios.
+const CHARS_PER_TOKEN: [prefix: string, ratio: number][] = [
+  ['openai/', 3.8],
+  ['google/', 3.8],
+  ['meta-llama/', 3.6],
+  ['anthropic/', 3.4],
+  ['deepseek/', 3.4],
+  ['mistralai/', 3.2],
+  ['qwen/', 3.2],
+];
+const DEFAULT_CHARS_PER_TOKEN = 3.2;
+// Role markers and separators the provider adds around every message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+interface BuildContextOptions {
+  botName: string;
+  model: string;
+  settings?: ContextSettings;
+  /** Every bot name, so other bots' messages can be excluded */
+  botNames: string[];
+  now?: number;
+}
+
+export function estimateTokens(text: string, model: string): number {
+  const ratio =
+    CHARS_PER_TOKEN.find(([prefix]) => model.startsWith(prefix))?.[1] ??
+    DEFAULT_CHARS_PER_TOKEN;
+  return Math.ceil(text.length / ratio) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Pick the slice of the shared chat history one bot should see: messages
+ * within its max age that fit its token budget, newest first. With
+ * `preferInvolved`, messages to or from the bot are kept ahead of the
+ * rest. Returned in chat order.
+ */
+export function buildBotContext(
+  history: ChatMessage[],
+  {
+    botName,
+    model,
+    settings = {},
+    botNames,
+    now = Date.now(),
+  }: BuildContextOptions
+): ChatMessage[] {
+  const maxTokens = settings.maxTokens ?? DEFAULT_CONTEXT_SETTINGS.maxTokens;
+  const maxAgeMs =
+    (settings.maxAgeMinutes ?? DEFAULT_CONTEXT_SETTINGS.maxAgeMinutes) * 60_000;
+  const excludeOtherBots =
+    settings.excludeOtherBots ?? DEFAULT_CONTEXT_SETTINGS.excludeOtherBots;
+  const preferInvolved =
+    settings.preferInvolved ?? DEFAULT_CONTEXT_SETTINGS.preferInvolved;
+
+  const lowerBotName = botName.toLowerCase();
+  const otherBots = new Set(
+    botNames
+      .map((name) => name.toLowerCase())
+      .filter((name) => name !== lowerBotName)
+  );
+
+  const candidates = history
+    .filter((msg) => now - msg.timestamp <= maxAgeMs)
+    .filter(
+      (msg) => !(excludeOtherBots && otherBots.has(msg.user.toLowerCase()))
+    )
+    .reverse();
+
+  if (preferInvolved) {
+    // Stable sort keeps newest-first order within each group
+    candidates.sort(
+      (a, b) =>
+        Number(involvesBot(b, lowerBotName)) -
+        Number(involvesBot(a, lowerBotName))
+    );
+  }
+
+  const selected = new Set<ChatMessage>();
+  let usedTokens = 0;
+
+  for (const msg of candidates) {
+    const tokens = estimateTokens(`${msg.user}: ${msg.message}`, model);
+    if (usedTokens + tokens > maxTokens) {
+      // Plain recency keeps the context contiguous; preferring involved
+      // messages may still fit shorter ones further back
+      if (preferInvolved) {
+        continue;
+      }
+      break;
+    }
+
+    usedTokens += tokens;
+    selected.add(msg);
+  }
+
+  return history.filter((msg) => selected.has(msg));
+}
+
+function involvesBot(msg: ChatMessage, lowerBotName: string): boolean {
+  return (
+    msg.user.toLowerCase() === lowerBotName ||
+    msg.replyParentUser?.toLowerCase() === lowerBotName ||
+    msg.message.toLowerCase().includes(`@${lowerBotName}`)
+  );
+}
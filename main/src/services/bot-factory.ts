@@ -1,14 +1,18 @@
 import { createLogger } from '@/shared/logger';
 import type { TokenManager } from '@/shared/token.service';
 import { ChatbotService } from './chatbot.service';
+import type { ChatbotQueue } from './chatbot-queue';
 import type { ConfigManager } from './config-manager';
 import { ModeratorBotService } from './moderatorbot.service';
+import type { StrikeLedger } from './strike-ledger';
 
 const logger = createLogger('BotFactory');
 
 export async function createAllBots(
   tokenManager: TokenManager,
-  configManager: ConfigManager
+  configManager: ConfigManager,
+  strikeLedger: StrikeLedger,
+  queue: ChatbotQueue
 ): Promise<{
   bots: Map<string, ChatbotService>;
   moderatorBot: ModeratorBotService | undefined;
@@ -26,7 +30,10 @@ export async function createAllBots(
           moderatorBot = await ModeratorBotService.create(
             tokenManager,
             botConfig.name,
-            botConfig
+            botConfig,
+            configManager.getModerationSettings(),
+            strikeLedger,
+            queue
           );
           logger.info(`✅ Created moderator bot: ${botConfig.name}`);
         } else {
@@ -2,23 +2,43 @@ import { createLogger } from '@/shared/logger';
 import type { TokenManager } from '@/shared/token.service';
 import type { AIService } from './ai.service';
 import { createAllBots } from './bot-factory';
-import type { ChatMessage } from './chat-listener.service';
-import type { ChatbotService } from './chatbot.service';
-import type { BotConfig, ConfigManager } from './config-manager';
+import type { ChatMessage, ModerationEvent } from './chat-listener.service';
+import type { ChatbotService, ReplyTarget } from './chatbot.service';
+import type { ChatbotQueue } from './chatbot-queue';
+import type {
+  BotConfig,
+  ConfigManager,
+  ModerationSettings,
+} from './config-manager';
 import type { ModeratorBotService } from './moderatorbot.service';
+import type { StrikeLedger } from './strike-ledger';
 
 export class BotManager {
   private bots: Map<string, ChatbotService> = new Map();
   private moderatorBot: ModeratorBotService | undefined;
+  private readonly queue: ChatbotQueue;
   private logger = createLogger('BotManager');
 
+  // Runtime state set by chat control commands, cleared when the stream ends
+  private allPaused = false;
+  private readonly pausedBots = new Set<string>();
+  private readonly mutedUntil = new Map<string, number>();
+  private readonly leftBots = new Set<string>();
+
+  constructor(queue: ChatbotQueue) {
+    this.queue = queue;
+  }
+
   async initialize(
     tokenManager: TokenManager,
-    configManager: ConfigManager
+    configManager: ConfigManager,
+    strikeLedger: StrikeLedger
   ): Promise<void> {
     const { bots, moderatorBot } = await createAllBots(
       tokenManager,
-      configManager
+      configManager,
+      strikeLedger,
+      this.queue
     );
     this.bots = bots;
     this.moderatorBot = moderatorBot;
@@ -57,16 +77,163 @@ export class BotManager {
     }
   }
 
+  /**
+   * Reply to a chat command from the configured responder, falling back to
+   * the moderator bot and then the first chatter bot. Replies go through the
+   * queue's rate limit and duplicate guard like AI replies.
+   */
+  sayAsCommandResponder(
+    message: string,
+    replyTo: ReplyTarget,
+    responderName?: string
+  ): void {
+    const responder = responderName && this.bots.get(responderName);
+    if (responder) {
+      this.queue.send(responder, message, replyTo);
+      return;
+    }
+
+    if (this.moderatorBot) {
+      this.moderatorBot.say(message, replyTo);
+      return;
+    }
+
+    const fallback = this.bots.values().next().value;
+    if (!fallback) {
+      this.logger.warn('No bot available to answer command');
+      return;
+    }
+
+    this.queue.send(fallback, message, replyTo);
+  }
+
+  /**
+   * Case-insensitive lookup of a chatter bot's configured name
+   */
+  findBotName(input: string): string | undefined {
+    const lowerInput = input.replace('@', '').toLowerCase();
+    return [...this.bots.keys()].find(
+      (name) => name.toLowerCase() === lowerInput
+    );
+  }
+
+  isBotAvailable(name: string): boolean {
+    if (
+      this.allPaused ||
+      this.pausedBots.has(name) ||
+      this.leftBots.has(name)
+    ) {
+      return false;
+    }
+
+    const mutedUntil = this.mutedUntil.get(name);
+    if (mutedUntil !== undefined && mutedUntil <= Date.now()) {
+      this.mutedUntil.delete(name);
+      return true;
+    }
+    return mutedUntil === undefined;
+  }
+
+  getAvailableBotNames(): string[] {
+    return [...this.bots.keys()].filter((name) => this.isBotAvailable(name));
+  }
+
+  /**
+   * Pause one bot, or every chatter bot when no name is given
+   */
+  pauseBot(name?: string): void {
+    if (name) {
+      this.pausedBots.add(name);
+    } else {
+      this.allPaused = true;
+    }
+    this.logger.info({ bot: name ?? 'all' }, '⏸️  Bot paused');
+  }
+
+  /**
+   * Resume one bot, or lift every pause and mute when no name is given
+   */
+  resumeBot(name?: string): void {
+    if (name) {
+      this.pausedBots.delete(name);
+      this.mutedUntil.delete(name);
+    } else {
+      this.allPaused = false;
+      this.pausedBots.clear();
+      this.mutedUntil.clear();
+    }
+    this.logger.info({ bot: name ?? 'all' }, '▶️  Bot resumed');
+  }
+
+  muteBot(name: string, minutes: number): void {
+    this.mutedUntil.set(name, Date.now() + minutes * 60_000);
+    this.logger.info({ bot: name, minutes }, '🔇 Bot muted');
+  }
+
+  leaveBot(name: string): void {
+    const bot = this.bots.get(name);
+    if (!bot || this.leftBots.has(name)) {
+      return;
+    }
+
+    bot.leaveChannel();
+    this.leftBots.add(name);
+    this.logger.info(`🤖 Bot ${name} left the channel`);
+  }
+
+  rejoinBot(name: string): void {
+    const bot = this.bots.get(name);
+    if (!(bot && this.leftBots.has(name))) {
+      return;
+    }
+
+    bot.joinChannel();
+    this.leftBots.delete(name);
+    this.logger.info(`🤖 Bot ${name} rejoined the channel`);
+  }
+
+  clearRuntimeState(): void {
+    this.allPaused = false;
+    this.pausedBots.clear();
+    this.mutedUntil.clear();
+    this.leftBots.clear();
+  }
+
   getBots(): Map<string, ChatbotService> {
     return this.bots;
   }
 
-  updateModeratorConfig(config: BotConfig): void {
+  /**
+   * Subscribe to actions the moderator bot takes, if there is one
+   */
+  onModerationAction(listener: (event: ModerationEvent) => void): void {
+    this.moderatorBot?.on('action', listener);
+  }
+
+  updateModeratorConfig(config: BotConfig, policy: ModerationSettings): void {
     if (this.moderatorBot) {
-      this.moderatorBot.updateConfig(config);
+      this.moderatorBot.updateConfig(config, policy);
     }
   }
 
+  /**
+   * Command prefix the moderator bot uses when it asks mods to confirm a ban
+   */
+  setCommandPrefix(prefix: string): void {
+    this.moderatorBot?.setCommandPrefix(prefix);
+  }
+
+  /**
+   * Carry out a ban the moderator bot is holding for confirmation
+   */
+  confirmBan(user: string): Promise<boolean> {
+    return this.moderatorBot?.confirmBan(user) ?? Promise.resolve(false);
+  }
+
+  dismissBan(user: string): boolean {
+    return this.moderatorBot?.dismissBan(user) ?? false;
+  }
+
   destroy(): void {
     this.disconnectAll();
     this.bots.clear();
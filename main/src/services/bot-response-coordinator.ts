@@ -1,36 +1,69 @@
 import { createLogger } from '@/shared/logger';
-import type { AIService } from './ai.service';
+import type { AIService, RecalledMemories } from './ai.service';
+import { BanterTracker, getBanterAffinity } from './banter-tracker';
+import { buildBotContext } from './bot-context-builder';
+import type { BotManager } from './bot-manager';
 import type { ChatMessage } from './chat-listener.service';
 import type { ChatMessageWindow } from './chat-message-window';
-import type { ChatbotService } from './chatbot.service';
-import type { ChatbotQueue } from './chatbot-queue';
-import type { ConfigManager } from './config-manager';
+import type { ChatbotService, ReplyTarget } from './chatbot.service';
+import type { ChatbotQueue, JobPriority } from './chatbot-queue';
+import type { BotConfig, ConfigManager } from './config-manager';
+import type { ConversationSummarizer } from './conversation-summarizer';
+import type { RouteRequest } from './model-router';
+import { postProcessResponse } from './response-post-processor';
+import { TriggerPolicyEvaluator, type TriggerType } from './trigger-policy';
+import {
+  DEFAULT_MEMORY_SETTINGS,
+  type ViewerMemoryStore,
+} from './viewer-memory-store';
+import { ViewerRateLimiter } from './viewer-rate-limiter';
+
+// Recent lines from the viewer and bot that memory extraction looks at
+const MEMORY_CONVERSATION_LENGTH = 6;
+
+interface PlannedResponse {
+  botName: string;
+  trigger: TriggerType;
+}
 
 export class BotResponseCoordinator {
   private logger = createLogger('BotResponseCoordinator');
-  private readonly RANDOM_RESPONSE_CHANCE = 0.25;
+  private readonly triggerPolicy = new TriggerPolicyEvaluator();
+  private readonly banter = new BanterTracker();
+  private readonly rateLimiter = new ViewerRateLimiter((botName, messages) =>
+    this.queueGroupedResponse(botName, messages)
+  );
   private ai: AIService;
   private queue: ChatbotQueue;
   private messageWindow: ChatMessageWindow;
-  private bots: Map<string, ChatbotService>;
+  private botManager: BotManager;
   private configManager: ConfigManager;
+  private memoryStore: ViewerMemoryStore;
+  private summarizer: ConversationSummarizer;
 
   constructor(
     ai: AIService,
     queue: ChatbotQueue,
     messageWindow: ChatMessageWindow,
-    bots: Map<string, ChatbotService>,
-    configManager: ConfigManager
+    botManager: BotManager,
+    configManager: ConfigManager,
+    memoryStore: ViewerMemoryStore,
+    summarizer: ConversationSummarizer
   ) {
     this.ai = ai;
     this.queue = queue;
     this.messageWindow = messageWindow;
-    this.bots = bots;
+    this.botManager = botManager;
     this.configManager = configManager;
+    this.memoryStore = memoryStore;
+    this.summarizer = summarizer;
   }
 
   stop(): void {
     this.queue.stop();
+    this.triggerPolicy.reset();
+    this.banter.reset();
+    this.rateLimiter.reset();
   }
 
   refreshBotConfigs(configManager: ConfigManager): void {
@@ -38,6 +71,14 @@ export class BotResponseCoordinator {
     this.logger.info('Bot configs refreshed');
   }
 
+  /**
+   * Drop queued replies for one bot (or all bots) and cancel any being
+   * generated, e.g. when it is paused
+   */
+  cancelPendingResponses(botName?: string): void {
+    this.queue.clearBot(botName);
+  }
+
   destroy(): void {
     this.stop();
   }
@@ -46,69 +87,406 @@ export class BotResponseCoordinator {
     this.logger.debug({ chatMessage: msg }, 'Processing message');
     this.messageWindow.addMessage(msg);
 
-    const botsToRespond = this.determineRespondingBots(msg);
-    this.queueBotResponses(botsToRespond, msg);
+    const plannedResponses = this.configManager.isBotName(msg.user)
+      ? this.determineBanterResponders(msg)
+      : this.determineRespondingBots(msg);
+    this.queueBotResponses(plannedResponses, msg);
+  }
+
+  /**
+   * Direct question from the !ask command, answered like a mention
+   */
+  askBot(botName: string, msg: ChatMessage): void {
+    this.messageWindow.addMessage(msg);
+    this.banter.recordHumanMessage();
+
+    const policy = this.configManager.getBot(botName)?.triggers ?? {};
+    if (this.triggerPolicy.isOverResponseCap(botName, policy)) {
+      this.logger.info({ botName, user: msg.user }, 'Ask ignored, bot at cap');
+      return;
+    }
+
+    this.queueBotResponses([{ botName, trigger: 'mention' }], msg);
   }
 
-  private determineRespondingBots(msg: ChatMessage): string[] {
-    const botsToRespond: string[] = [];
+  private determineRespondingBots(msg: ChatMessage): PlannedResponse[] {
+    this.banter.recordHumanMessage();
 
-    for (const [botName] of this.bots) {
-      if (this.isBotOwnMessage(msg, botName)) {
-        continue;
+    const plannedResponses: PlannedResponse[] = [];
+    const randomCandidates: string[] = [];
+
+    for (const botName of this.botManager.getAvailableBotNames()) {
+      const trigger = this.classifyTrigger(msg, botName);
+
+      if (trigger === 'random') {
+        randomCandidates.push(botName);
+      } else if (trigger) {
+        plannedResponses.push({ botName, trigger });
+      }
+    }
+
+    if (plannedResponses.length === 0) {
+      const randomResponder = this.pickRandomResponder(randomCandidates);
+      if (randomResponder) {
+        plannedResponses.push({ botName: randomResponder, trigger: 'random' });
       }
+    }
+
+    return plannedResponses;
+  }
+
+  /**
+   * Bot-to-bot replies: at most one bot answers another bot, weighted by
+   * its affinity for the speaker, until the chain hits the loop guard.
+   */
+  private determineBanterResponders(msg: ChatMessage): PlannedResponse[] {
+    this.banter.recordBotMessage();
+
+    const settings = this.configManager.getBanterSettings();
+    if (!this.banter.canContinue(settings)) {
+      this.logger.debug(
+        { chainLength: this.banter.currentChainLength, from: msg.user },
+        'Banter chain ended'
+      );
+      return [];
+    }
+
+    const candidates: string[] = [];
+    for (const botName of this.shuffle(
+      this.botManager.getAvailableBotNames()
+    )) {
+      const trigger = this.classifyTrigger(msg, botName);
 
-      if (this.isBotMentioned(msg, botName)) {
-        botsToRespond.push(botName);
-      } else if (this.shouldBotRandomlyRespond(botsToRespond)) {
-        botsToRespond.push(botName);
+      if (trigger === 'mention') {
+        return [{ botName, trigger }];
       }
+      if (trigger) {
+        candidates.push(botName);
+      }
+    }
+
+    const responder = candidates.find(
+      (botName) =>
+        Math.random() <
+        getBanterAffinity(
+          this.configManager.getBot(botName),
+          msg.user,
+          settings
+        )
+    );
+    return responder ? [{ botName: responder, trigger: 'random' }] : [];
+  }
+
+  /**
+   * Decide how (if at all) a message can trigger a bot under its policy.
+   * Mentions bypass cooldowns and quiet hours but not the per-minute cap.
+   */
+  private classifyTrigger(
+    msg: ChatMessage,
+    botName: string
+  ): TriggerType | null {
+    if (this.isBotOwnMessage(msg, botName)) {
+      return null;
+    }
+
+    const policy = this.configManager.getBot(botName)?.triggers ?? {};
+
+    if (this.triggerPolicy.isOverResponseCap(botName, policy)) {
+      return null;
+    }
+
+    if (this.isBotMentioned(msg, botName)) {
+      return 'mention';
+    }
+
+    if (!this.triggerPolicy.canInterject(botName, policy)) {
+      return null;
     }
 
-    return botsToRespond;
+    return this.triggerPolicy.matchesTrigger(policy, msg.message)
+      ? 'keyword'
+      : 'random';
   }
 
   private isBotOwnMessage(msg: ChatMessage, botName: string): boolean {
     return msg.user.toLowerCase() === botName.toLowerCase();
   }
 
+  /**
+   * A bot is addressed by an @mention or by a threaded reply to one of its
+   * own messages
+   */
   private isBotMentioned(msg: ChatMessage, botName: string): boolean {
-    return msg.message.toLowerCase().includes(`@${botName.toLowerCase()}`);
+    const lowerBotName = botName.toLowerCase();
+
+    if (msg.replyParentUser?.toLowerCase() === lowerBotName) {
+      return true;
+    }
+
+    return msg.message.toLowerCase().includes(`@${lowerBotName}`);
   }
 
-  private shouldBotRandomlyRespond(botsAlreadyResponding: string[]): boolean {
-    return (
-      botsAlreadyResponding.length === 0 &&
-      Math.random() < this.RANDOM_RESPONSE_CHANCE
+  /**
+   * At most one bot interjects unprompted per message. Candidates are
+   * shuffled so every bot gets a fair roll regardless of config order.
+   */
+  private pickRandomResponder(candidates: string[]): string | undefined {
+    return this.shuffle(candidates).find((botName) =>
+      this.triggerPolicy.rollReplyChance(
+        this.configManager.getBot(botName)?.triggers ?? {}
+      )
     );
   }
 
-  private queueBotResponses(botsToRespond: string[], msg: ChatMessage): void {
-    for (const botName of botsToRespond) {
-      const bot = this.bots.get(botName);
+  private shuffle(botNames: string[]): string[] {
+    return [...botNames].sort(() => Math.random() - 0.5);
+  }
+
+  /**
+   * Short descriptions of every other persona, so bots know who they are
+   * talking to when they reply to each other
+   */
+  private describeOtherBots(
+    botName: string
+  ): Array<{ name: string; description?: string }> {
+    return this.configManager
+      .getBots()
+      .filter((bot) => bot.name !== botName)
+      .map((bot) =>
+        bot.description
+          ? { name: bot.name, description: bot.description }
+          : { name: bot.name }
+      );
+  }
+
+  private queueBotResponses(
+    plannedResponses: PlannedResponse[],
+    msg: ChatMessage
+  ): void {
+    const rateLimitSettings = this.configManager.getRateLimitSettings();
 
-      if (!bot) {
-        this.logger.error(`Bot ${botName} not found`);
+    for (const { botName, trigger } of plannedResponses) {
+      if (
+        !this.rateLimiter.tryAcquire(msg, botName, trigger, rateLimitSettings)
+      ) {
         continue;
       }
 
-      const botConfig = this.configManager.getBot(botName);
-      if (!botConfig) {
-        this.logger.error(`Bot config not found for ${botName}`);
-        continue;
+      this.triggerPolicy.recordResponse(botName);
+
+      const triggerMessage = `${msg.user}: ${msg.message}`;
+      const route = { trigger, text: msg.message, role: msg.role };
+      if (trigger === 'mention') {
+        // A newer mention from the same viewer replaces their pending one
+        this.queueResponse(botName, {
+          triggerMessage,
+          replyTo: { user: msg.user, messageId: msg.id },
+          addressedBy: msg,
+          route,
+          priority: msg.role === 'broadcaster' ? 'broadcaster' : 'mention',
+          replaceKey: msg.user.toLowerCase(),
+        });
+      } else {
+        this.queueResponse(botName, {
+          triggerMessage,
+          route,
+          priority: 'chatter',
+        });
       }
+    }
+  }
 
-      this.queue.addMessage(botName, async () => {
+  /**
+   * Answer a throttled viewer's held-back mentions in a single reply
+   */
+  private queueGroupedResponse(botName: string, messages: ChatMessage[]): void {
+    this.logger.info(
+      { botName, count: messages.length },
+      'Releasing grouped mentions'
+    );
+
+    const latest = messages.at(-1);
+
+    this.triggerPolicy.recordResponse(botName);
+    this.queueResponse(botName, {
+      triggerMessage: messages.map((m) => `${m.user}: ${m.message}`).join('\n'),
+      ...(latest && {
+        replyTo: { user: latest.user, messageId: latest.id },
+        replaceKey: latest.user.toLowerCase(),
+        addressedBy: latest,
+        route: {
+          trigger: 'mention',
+          text: messages.map((m) => m.message).join('\n'),
+          role: latest.role,
+        },
+      }),
+      priority: 'mention',
+    });
+  }
+
+  private getKnownUsers(): string[] {
+    return [
+      ...this.messageWindow.messages.map((m) => m.user),
+      ...this.configManager.getBots().map((bot) => bot.name),
+    ];
+  }
+
+  /**
+   * Long-term memories about a viewer who is talking to the bot directly
+   */
+  private recallMemories(
+    botName: string,
+    viewer: ChatMessage
+  ): RecalledMemories | undefined {
+    const settings = this.configManager.getMemorySettings();
+    if (
+      !(settings.enabled ?? DEFAULT_MEMORY_SETTINGS.enabled) ||
+      this.configManager.isBotName(viewer.user)
+    ) {
+      return;
+    }
+
+    const memories = this.memoryStore.recall(
+      botName,
+      viewer,
+      viewer.message,
+      settings.maxInPrompt ?? DEFAULT_MEMORY_SETTINGS.maxInPrompt
+    );
+    return memories.length > 0
+      ? { viewer: viewer.displayName, memories }
+      : undefined;
+  }
+
+  /**
+   * Extract anything worth remembering from the bot's exchange with a
+   * viewer. Runs in the background after the reply has been sent.
+   */
+  private async rememberConversation(
+    botName: string,
+    botConfig: BotConfig,
+    viewer: ChatMessage,
+    reply: string
+  ): Promise<void> {
+    const settings = this.configManager.getMemorySettings();
+    if (
+      !(settings.enabled ?? DEFAULT_MEMORY_SETTINGS.enabled) ||
+      this.configManager.isBotName(viewer.user)
+    ) {
+      return;
+    }
+
+    const participants = new Set([
+      viewer.user.toLowerCase(),
+      botName.toLowerCase(),
+    ]);
+    const conversation = [
+      ...this.messageWindow.messages
+        .filter((m) => participants.has(m.user.toLowerCase()))
+        .slice(-MEMORY_CONVERSATION_LENGTH),
+      { user: botName, message: reply },
+    ];
+
+    try {
+      const memories = await this.ai.extractViewerMemories({
+        botName,
+        model: settings.model ?? botConfig.model,
+        ...((settings.provider ?? botConfig.provider) && {
+          provider: settings.provider ?? botConfig.provider,
+        }),
+        viewer: viewer.user,
+        conversation,
+        existing: this.memoryStore.list(botName, viewer.userId),
+      });
+
+      if (memories && memories.length > 0) {
+        this.memoryStore.remember(
+          botName,
+          viewer,
+          memories,
+          settings.maxPerViewer ?? DEFAULT_MEMORY_SETTINGS.maxPerViewer
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        { err: error, botName, viewer: viewer.user },
+        'Failed to store viewer memories'
+      );
+    }
+  }
+
+  private queueResponse(
+    botName: string,
+    {
+      triggerMessage,
+      replyTo,
+      addressedBy,
+      route,
+      priority,
+      replaceKey,
+    }: {
+      triggerMessage: string;
+      replyTo?: ReplyTarget;
+      /** Viewer talking to the bot directly, whose memories apply */
+      addressedBy?: ChatMessage;
+      route?: RouteRequest;
+      priority: JobPriority;
+      replaceKey?: string;
+    }
+  ): void {
+    const bot = this.botManager.getBots().get(botName);
+
+    if (!bot) {
+      this.logger.error(`Bot ${botName} not found`);
+      return;
+    }
+
+    const botConfig = this.configManager.getBot(botName);
+    if (!botConfig) {
+      this.logger.error(`Bot config not found for ${botName}`);
+      return;
+    }
+
+    const jobOptions = replaceKey ? { priority, replaceKey } : { priority };
+
+    this.queue.addMessage(
+      botName,
+      async (job) => {
         try {
-          const response = await this.ai.generateResponse({
-            botName,
-            botConfig,
-            triggerMessage: `${msg.user}: ${msg.message}`,
-            context: this.messageWindow.messages,
+          const response = await this.generateReply(botName, botConfig, {
+            triggerMessage,
+            abortSignal: job.signal,
+            ...(addressedBy && { addressedBy }),
+            ...(route && { route }),
           });
           this.logger.debug({ response }, 'Generated response');
-          if (response) {
-            bot.say(response);
+          // Stale first, so replies cancelled by a newer mention count as replaced
+          if (job.dropIfStale() || !response) {
+            return;
+          }
+          if (!this.botManager.isBotAvailable(botName)) {
+            this.logger.info({ botName }, 'Bot paused, discarding response');
+            return;
+          }
+
+          const outgoing = postProcessResponse(response, {
+            botName,
+            knownUsers: this.getKnownUsers(),
+            settings: botConfig.output ?? {},
+          });
+          if (outgoing.length === 0) {
+            this.logger.warn({ response }, 'Response empty after cleanup');
+            return;
+          }
+
+          await this.sendParts(bot, outgoing, replyTo);
+
+          if (addressedBy) {
+            this.rememberConversation(
+              botName,
+              botConfig,
+              addressedBy,
+              outgoing.join(' ')
+            );
           }
         } catch (error) {
           this.logger.error(
@@ -116,7 +494,70 @@ export class BotResponseCoordinator {
             `Error generating response for ${botName}`
           );
         }
-      });
+      },
+      jobOptions
+    );
+  }
+
+  private generateReply(
+    botName: string,
+    botConfig: BotConfig,
+    {
+      triggerMessage,
+      addressedBy,
+      route,
+      abortSignal,
+    }: {
+      triggerMessage: string;
+      addressedBy?: ChatMessage;
+      route?: RouteRequest;
+      abortSignal: AbortSignal;
+    }
+  ): Promise<string | null> {
+    const recalled = addressedBy && this.recallMemories(botName, addressedBy);
+    const history = this.messageWindow.messages;
+    const context = buildBotContext(history, {
+      botName,
+      model: botConfig.model,
+      settings: botConfig.context ?? {},
+      botNames: this.configManager.getBots().map(({ name }) => name),
+    });
+
+    // Chat too old for this bot's context goes into the summary now rather
+    // than when it leaves the longer shared history
+    const oldestSeen = context[0];
+    this.summarizer.addEvicted(
+      oldestSeen
+        ? history.filter((msg) => msg.timestamp < oldestSeen.timestamp)
+        : history
+    );
+
+    return this.ai.generateResponse({
+      botName,
+      botConfig,
+      triggerMessage,
+      abortSignal,
+      context,
+      otherBots: this.describeOtherBots(botName),
+      chatSummary: this.summarizer.getSummary(),
+      ...(recalled && { recalled }),
+      ...(route && { route }),
+    });
+  }
+
+  /**
+   * Only the first part is threaded, the rest follow as plain messages
+   */
+  private async sendParts(
+    bot: ChatbotService,
+    parts: string[],
+    replyTo?: ReplyTarget
+  ): Promise<void> {
+    const [first, ...rest] = parts;
+    await this.queue.send(bot, first ?? '', replyTo);
+    for (const part of rest) {
+      // biome-ignore lint/nursery/noAwaitInLoop: parts must post in order
+      await this.queue.send(bot, part);
     }
   }
 }
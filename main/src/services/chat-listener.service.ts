@@ -1,4 +1,9 @@
-import { ChatClient, type ChatUser } from '@twurple/chat';
+import {
+  ChatClient,
+  type ChatUser,
+  parseEmotePositions,
+  type ChatMessage as TwitchChatMessage,
+} from '@twurple/chat';
 import { EventEmitter } from 'tseep';
 import { createLogger } from '@/shared/logger';
 import { env } from '../env';
@@ -11,14 +16,61 @@ export const ROLES = {
 
 export type Role = (typeof ROLES)[keyof typeof ROLES];
 
+export interface ChatEmote {
+  id: string;
+  name: string;
+  /** Zero-based index of the first character of the emote in the message */
+  start: number;
+  /** Zero-based index of the last character of the emote in the message */
+  end: number;
+}
+
 export interface ChatMessage {
+  id: string;
+  userId: string;
+  /** Login name, lowercase */
   user: string;
+  displayName: string;
   message: string;
+  /** Unix epoch milliseconds when Twitch received the message */
+  timestamp: number;
   role: Role;
+  /** Badge name to badge version, e.g. `{ subscriber: '12' }` */
+  badges: Record<string, string>;
+  isSubscriber: boolean;
+  isVip: boolean;
+  isFounder: boolean;
+  isFirstMessage: boolean;
+  bits: number;
+  emotes: ChatEmote[];
+  /** Login of the user whose message this one replies to, if it is a reply */
+  replyParentUser?: string;
+}
+
+export interface ModerationEvent {
+  type: 'timeout' | 'ban' | 'delete' | 'warn';
+  user: string;
+  /** Deleted message for `delete`, or the offending one for shadow decisions */
+  messageId?: string;
+  /** Timeout length in seconds */
+  duration?: number;
+  timestamp: number;
+  /** Set when one of our bots took the action */
+  moderator?: string;
+  reason?: string;
+  /** Rule one of our bots acted under */
+  rule?: string;
+  /** Only logged: the rule is in shadow mode and nothing was done */
+  shadow?: boolean;
+  /** The offending message, for shadow decisions */
+  message?: string;
+  /** The moderator model's verdict, or the pre-filter's */
+  verdict?: { source: 'model' | 'prefilter'; reason: string };
 }
 
 export class ChatListenerService extends EventEmitter<{
   message: (message: ChatMessage) => void;
+  moderation: (event: ModerationEvent) => void;
 }> {
   private readonly client: ChatClient;
   private readonly logger = createLogger('ChatListenerService');
@@ -35,22 +87,84 @@ export class ChatListenerService extends EventEmitter<{
     this.logger.info('👂 Chat listener started');
     this.client.connect();
     this.handleMessage();
+    this.handleModeration();
   }
 
   stop(): void {
     this.logger.info('🔇 Chat listener stopped');
     this.client.quit();
     this.removeAllListeners('message');
+    this.removeAllListeners('moderation');
   }
 
   private handleMessage(): void {
     this.client.onMessage((_channel, user, message, msg) => {
-      this.emit('message', {
+      this.emit('message', this.toChatMessage(user, message, msg));
+    });
+  }
+
+  /**
+   * Timeouts, bans and deletions seen in chat, whoever performed them
+   */
+  private handleModeration(): void {
+    this.client.onTimeout((_channel, user, duration, msg) => {
+      this.emit('moderation', {
+        type: 'timeout',
+        user,
+        duration,
+        timestamp: msg.date.getTime(),
+      });
+    });
+
+    this.client.onBan((_channel, user, msg) => {
+      this.emit('moderation', {
+        type: 'ban',
         user,
-        message,
-        role: this.determineRole(msg.userInfo),
+        timestamp: msg.date.getTime(),
       });
     });
+
+    this.client.onMessageRemove((_channel, messageId, msg) => {
+      this.emit('moderation', {
+        type: 'delete',
+        user: msg.userName,
+        messageId,
+        timestamp: msg.date.getTime(),
+      });
+    });
+  }
+
+  private toChatMessage(
+    user: string,
+    message: string,
+    msg: TwitchChatMessage
+  ): ChatMessage {
+    const { userInfo } = msg;
+
+    return {
+      id: msg.id,
+      userId: userInfo.userId,
+      user,
+      displayName: userInfo.displayName,
+      message,
+      timestamp: msg.date.getTime(),
+      role: this.determineRole(userInfo),
+      badges: Object.fromEntries(userInfo.badges),
+      isSubscriber: userInfo.isSubscriber,
+      isVip: userInfo.isVip,
+      isFounder: userInfo.isFounder,
+      isFirstMessage: msg.isFirst,
+      bits: msg.bits,
+      emotes: parseEmotePositions(message, msg.emoteOffsets).map((emote) => ({
+        id: emote.id,
+        name: emote.name,
+        start: emote.position,
+        end: emote.position + emote.length - 1,
+      })),
+      ...(msg.parentMessageUserName && {
+        replyParentUser: msg.parentMessageUserName,
+      }),
+    };
   }
 
   private determineRole(userInfo: ChatUser): Role {
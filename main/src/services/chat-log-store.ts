@@ -0,0 +1,245 @@
+import { Database } from 'bun:sqlite';
+import { existsSync, mkdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { createLogger } from '@/shared/logger';
+import { env } from '../env';
+import type { ChatMessage, ModerationEvent } from './chat-listener.service';
+
+export type ChatLogKind = 'chat' | 'bot' | 'moderation';
+
+export interface ChatLogEntry {
+  id: number;
+  sessionId: string | null;
+  kind: ChatLogKind;
+  user: string;
+  message: string;
+  timestamp: number;
+  /** Full chat message or moderation event as it was logged */
+  data: ChatMessage | ModerationEvent;
+}
+
+export interface ChatLogQuery {
+  user?: string;
+  /** Epoch milliseconds, inclusive */
+  from?: number;
+  to?: number;
+  /** Case-insensitive substring of the message */
+  text?: string;
+  sessionId?: string;
+  kinds?: ChatLogKind[];
+  limit?: number;
+}
+
+interface ChatLogRow {
+  id: number;
+  session_id: string | null;
+  kind: ChatLogKind;
+  user: string;
+  message: string;
+  timestamp: number;
+  data: string;
+}
+
+const DEFAULT_QUERY_LIMIT = 100;
+const LIKE_SPECIAL_CHARS_PATTERN = /[\\%_]/g;
+
+export function defaultChatLogDbPath(): string {
+  return join(dirname(env.TOKEN_DB_PATH), 'chatlog.db');
+}
+
+/**
+ * Append-only log of everything seen in chat: viewer messages, bot output
+ * and moderation actions, tagged with the stream session they belong to.
+ */
+export class ChatLogStore {
+  private db: Database;
+  private sessionId: string | null = null;
+  private logger = createLogger('ChatLogStore');
+
+  constructor(dbPath: string = env.CHAT_LOG_DB_PATH ?? defaultChatLogDbPath()) {
+    const dir = dirname(dbPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.initializeSchema();
+  }
+
+  private initializeSchema() {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS stream_sessions (
+        id TEXT PRIMARY KEY,
+        started_at INTEGER NOT NULL,
+        ended_at INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS chat_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT,
+        kind TEXT NOT NULL,
+        user TEXT NOT NULL,
+        message TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_chat_log_timestamp ON chat_log(timestamp);
+      CREATE INDEX IF NOT EXISTS idx_chat_log_user ON chat_log(user);
+      CREATE INDEX IF NOT EXISTS idx_chat_log_session ON chat_log(session_id, timestamp);
+    `);
+  }
+
+  get currentSessionId(): string | null {
+    return this.sessionId;
+  }
+
+  /**
+   * Start logging under a stream session. Restarting mid-stream resumes
+   * the existing session since Twitch keeps the same stream ID.
+   */
+  startSession(sessionId: string): void {
+    this.sessionId = sessionId;
+    this.db
+      .prepare(
+        `INSERT INTO stream_sessions (id, started_at) VALUES (?, ?)
+         ON CONFLICT(id) DO UPDATE SET ended_at = NULL`
+      )
+      .run(sessionId, Date.now());
+    this.logger.info({ sessionId }, 'Chat log session started');
+  }
+
+  endSession(): void {
+    if (!this.sessionId) {
+      return;
+    }
+
+    this.db
+      .prepare('UPDATE stream_sessions SET ended_at = ? WHERE id = ?')
+      .run(Date.now(), this.sessionId);
+    this.logger.info({ sessionId: this.sessionId }, 'Chat log session ended');
+    this.sessionId = null;
+  }
+
+  logMessage(msg: ChatMessage, kind: 'chat' | 'bot' = 'chat'): void {
+    this.insert(kind, msg.user, msg.message, msg.timestamp, msg);
+  }
+
+  logModeration(event: ModerationEvent): void {
+    const summary = [
+      event.shadow && 'shadow',
+      event.type,
+      event.duration !== undefined && `${event.duration}s`,
+      event.moderator && `by ${event.moderator}`,
+      event.reason && `(${event.reason})`,
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+    this.insert('moderation', event.user, summary, event.timestamp, event);
+  }
+
+  /**
+   * Chat and bot messages from a session newer than `since`, oldest first,
+   * for warming up the chat window after a restart
+   */
+  getRecentMessages(
+    sessionId: string,
+    since: number,
+    limit: number
+  ): ChatMessage[] {
+    const rows = this.db
+      .query(
+        `SELECT * FROM chat_log
+         WHERE session_id = ? AND kind IN ('chat', 'bot') AND timestamp >= ?
+         ORDER BY timestamp DESC, id DESC
+         LIMIT ?`
+      )
+      .all(sessionId, since, limit) as ChatLogRow[];
+
+    return rows.reverse().map((row) => JSON.parse(row.data) as ChatMessage);
+  }
+
+  /** Newest matching entries first */
+  search(query: ChatLogQuery = {}): ChatLogEntry[] {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (query.user) {
+      conditions.push('lower(user) = ?');
+      params.push(query.user.replace('@', '').toLowerCase());
+    }
+    if (query.from !== undefined) {
+      conditions.push('timestamp >= ?');
+      params.push(query.from);
+    }
+    if (query.to !== undefined) {
+      conditions.push('timestamp <= ?');
+      params.push(query.to);
+    }
+    if (query.text) {
+      conditions.push("message LIKE ? ESCAPE '\\'");
+      params.push(
+        `%${query.text.replace(LIKE_SPECIAL_CHARS_PATTERN, '\\$&')}%`
+      );
+    }
+    if (query.sessionId) {
+      conditions.push('session_id = ?');
+      params.push(query.sessionId);
+    }
+    if (query.kinds && query.kinds.length > 0) {
+      conditions.push(`kind IN (${query.kinds.map(() => '?').join(', ')})`);
+      params.push(...query.kinds);
+    }
+
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .query(
+        `SELECT * FROM chat_log ${where} ORDER BY timestamp DESC, id DESC LIMIT ?`
+      )
+      .all(...params, query.limit ?? DEFAULT_QUERY_LIMIT) as ChatLogRow[];
+
+    return rows.map((row) => ({
+      id: row.id,
+      sessionId: row.session_id,
+      kind: row.kind,
+      user: row.user,
+      message: row.message,
+      timestamp: row.timestamp,
+      data: JSON.parse(row.data),
+    }));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private insert(
+    kind: ChatLogKind,
+    user: string,
+    message: string,
+    timestamp: number,
+    data: ChatMessage | ModerationEvent
+  ): void {
+    try {
+      this.db
+        .prepare(
+          `INSERT INTO chat_log (session_id, kind, user, message, timestamp, data)
+           VALUES (?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          this.sessionId,
+          kind,
+          user,
+          message,
+          timestamp,
+          JSON.stringify(data)
+        );
+    } catch (error) {
+      // Logging must never take chat handling down with it
+      this.logger.error({ err: error, kind, user }, 'Failed to log chat');
+    }
+  }
+}
@@ -1,21 +1,30 @@
+import { EventEmitter } from 'tseep';
 import type { ChatMessage } from './chat-listener.service';
 
 interface ChatMessageWithExpiration extends ChatMessage {
   expiration: number;
 }
 
-const TEN_MINUTES = 1000 * 60 * 10;
-const MAX_MESSAGES = 10;
+// Shared history each bot's context is cut from, see bot-context-builder
+export const DEFAULT_HISTORY_MESSAGES = 200;
+export const DEFAULT_HISTORY_MINUTES = 30;
 
-export class ChatMessageWindow {
+/**
+ * Most recent chat messages. Messages that fall out of the window are
+ * emitted so they can be summarized instead of forgotten.
+ */
+export class ChatMessageWindow extends EventEmitter<{
+  'messages:evicted': (messages: ChatMessage[]) => void;
+}> {
   private readonly messages_: ChatMessageWithExpiration[] = [];
   private readonly maxMessages: number;
   private readonly messageExpirationDuration: number;
 
   constructor(
-    maxMessages = MAX_MESSAGES,
-    messageExpirationDuration = TEN_MINUTES
+    maxMessages = DEFAULT_HISTORY_MESSAGES,
+    messageExpirationDuration = DEFAULT_HISTORY_MINUTES * 60_000
   ) {
+    super();
     this.maxMessages = maxMessages;
     this.messageExpirationDuration = messageExpirationDuration;
   }
@@ -30,31 +39,49 @@ export class ChatMessageWindow {
     const messageWithExpiration = this.createMessageWithExpiration(message);
 
     this.messages_.push(messageWithExpiration);
-    if (this.messages_.length > this.maxMessages) {
-      this.messages_.shift();
-    }
+    const overflow = this.messages_.splice(
+      0,
+      Math.max(0, this.messages_.length - this.maxMessages)
+    );
+    this.emitEvicted(overflow);
 
     this.cleanupExpiredMessages();
   }
 
+  /**
+   * Drop every message without emitting them, e.g. when the stream ends
+   */
+  clear(): void {
+    this.messages_.length = 0;
+  }
+
   private createMessageWithExpiration(
     message: ChatMessage
   ): ChatMessageWithExpiration {
     return {
       ...message,
-      expiration: Date.now() + this.messageExpirationDuration,
+      expiration: message.timestamp + this.messageExpirationDuration,
     };
   }
 
   private cleanupExpiredMessages(): void {
-    for (const message of this.messages_) {
-      const shouldRemove = message.expiration < Date.now();
-
-      if (!shouldRemove) {
-        break; // if a message is not expired, then all subsequent messages are not expired
-      }
+    // Messages are in arrival order, so expired ones are all at the front
+    const firstLive = this.messages_.findIndex(
+      (message) => message.expiration >= Date.now()
+    );
+    const expired = this.messages_.splice(
+      0,
+      firstLive === -1 ? this.messages_.length : firstLive
+    );
+    this.emitEvicted(expired);
+  }
 
-      this.messages_.splice(this.messages_.indexOf(message), 1);
+  private emitEvicted(messages: ChatMessageWithExpiration[]): void {
+    if (messages.length > 0) {
+      this.emit(
+        'messages:evicted',
+        messages.map(({ expiration: _expiration, ...message }) => message)
+      );
     }
   }
 }
@@ -1,11 +1,67 @@
 import PQueue from 'p-queue';
 import { createLogger } from '@/shared/logger';
+import type { ChatbotService, ReplyTarget } from './chatbot.service';
+import { OutboundRateLimiter } from './outbound-rate-limiter';
+
+export type JobPriority = 'broadcaster' | 'mention' | 'chatter';
+
+// Higher runs first within a bot's lane
+const PRIORITY_ORDER: Record<JobPriority, number> = {
+  broadcaster: 2,
+  mention: 1,
+  chatter: 0,
+};
+
+// How long a job may wait before its reply is no longer worth sending
+const DEFAULT_MAX_AGE_MS: Record<JobPriority, number> = {
+  broadcaster: 60_000,
+  mention: 30_000,
+  chatter: 15_000,
+};
+
+export interface QueueJobOptions {
+  priority?: JobPriority;
+  maxAgeMs?: number;
+  /** A newer job with the same key in the same bot lane replaces this one */
+  replaceKey?: string;
+}
+
+export interface QueueJobContext {
+  /** Aborted when the job is replaced, its lane is cleared or the queue stops */
+  signal: AbortSignal;
+  /**
+   * Call after generating a reply: true (and counted as a drop) when the
+   * job expired or was replaced while the model was running
+   */
+  dropIfStale(): boolean;
+}
+
+interface JobState {
+  botName: string;
+  queuedAt: number;
+  maxAgeMs: number;
+  replaced: boolean;
+  controller: AbortController;
+}
+
+export interface QueueStats {
+  depth: Record<string, number>;
+  dropped: {
+    expired: number;
+    replaced: number;
+  };
+}
 
 export class ChatbotQueue {
   private readonly mainQueue: PQueue;
   private readonly botQueues: Map<string, PQueue>;
   private readonly minDelay: number;
   private readonly maxDelay: number;
+  private readonly outboundLimiter = new OutboundRateLimiter();
+  private readonly pendingByKey = new Map<string, JobState>();
+  // Queued and running jobs, so they can be cancelled
+  private readonly activeJobs = new Set<JobState>();
+  private readonly dropped = { expired: 0, replaced: 0 };
   private readonly logger = createLogger('ChatbotQueue');
 
   constructor(minDelay = 1000, maxDelay = 3000) {
@@ -15,7 +71,35 @@ export class ChatbotQueue {
     this.maxDelay = maxDelay;
   }
 
-  addMessage(botName: string, messageAction: () => Promise<void>): void {
+  addMessage(
+    botName: string,
+    messageAction: (job: QueueJobContext) => Promise<void>,
+    { priority = 'chatter', maxAgeMs, replaceKey }: QueueJobOptions = {}
+  ): void {
+    const job: JobState = {
+      botName,
+      queuedAt: Date.now(),
+      maxAgeMs: maxAgeMs ?? DEFAULT_MAX_AGE_MS[priority],
+      replaced: false,
+      controller: new AbortController(),
+    };
+    this.activeJobs.add(job);
+
+    const laneKey = replaceKey && `${botName}:${replaceKey}`;
+    if (laneKey) {
+      const previous = this.pendingByKey.get(laneKey);
+      if (previous) {
+        previous.replaced = true;
+        previous.controller.abort();
+      }
+      this.pendingByKey.set(laneKey, job);
+    }
+
+    const context: QueueJobContext = {
+      signal: job.controller.signal,
+      dropIfStale: () => this.dropIfStale(botName, job, 'after generation'),
+    };
+
     this.mainQueue.add(() => {
       let botQueue = this.botQueues.get(botName);
       if (!botQueue) {
@@ -23,19 +107,115 @@ export class ChatbotQueue {
         this.botQueues.set(botName, botQueue);
       }
 
-      botQueue.add(async () => {
-        await this.randomDelay(this.minDelay, this.maxDelay);
-        return messageAction();
-      });
+      botQueue.add(
+        async () => {
+          await this.randomDelay(this.minDelay, this.maxDelay);
+
+          try {
+            if (
+              this.dropIfStale(botName, job, 'before generation') ||
+              job.controller.signal.aborted
+            ) {
+              return;
+            }
+            await messageAction(context);
+          } finally {
+            this.activeJobs.delete(job);
+            if (laneKey && this.pendingByKey.get(laneKey) === job) {
+              this.pendingByKey.delete(laneKey);
+            }
+          }
+        },
+        { priority: PRIORITY_ORDER[priority] }
+      );
     });
   }
 
+  getStats(): QueueStats {
+    const depth: Record<string, number> = {};
+    for (const [botName, botQueue] of this.botQueues) {
+      depth[botName] = botQueue.size + botQueue.pending;
+    }
+
+    return { depth, dropped: { ...this.dropped } };
+  }
+
+  /**
+   * Post a message through the bot's Twitch rate limit and duplicate guard.
+   * Resolves to false when the message had to be dropped or failed to post.
+   */
+  async send(
+    bot: ChatbotService,
+    message: string,
+    replyTo?: ReplyTarget
+  ): Promise<boolean> {
+    const outgoing = await this.outboundLimiter.acquire(
+      bot.botName,
+      message,
+      bot.hasElevatedRateLimit
+    );
+
+    if (outgoing === null) {
+      return false;
+    }
+
+    return await bot.say(outgoing, replyTo);
+  }
+
+  /**
+   * Drop everything still waiting in one bot's lane, or in every lane, and
+   * cancel replies being generated there
+   */
+  clearBot(botName?: string): void {
+    for (const [name, botQueue] of this.botQueues) {
+      if (!botName || name === botName) {
+        botQueue.clear();
+      }
+    }
+    this.cancelJobs(botName);
+  }
+
   stop(): void {
-    this.logger.info('🧹 Clearing message queue');
+    this.logger.info(this.getStats(), '🧹 Clearing message queue');
     this.mainQueue.clear();
     for (const botQueue of this.botQueues.values()) {
       botQueue.clear();
     }
+    this.cancelJobs();
+  }
+
+  private cancelJobs(botName?: string): void {
+    for (const job of this.activeJobs) {
+      if (!botName || job.botName === botName) {
+        job.controller.abort();
+        this.activeJobs.delete(job);
+      }
+    }
+    for (const [laneKey, job] of this.pendingByKey) {
+      if (!botName || job.botName === botName) {
+        job.controller.abort();
+        this.pendingByKey.delete(laneKey);
+      }
+    }
+  }
+
+  private dropIfStale(botName: string, job: JobState, stage: string): boolean {
+    const expired = Date.now() - job.queuedAt > job.maxAgeMs;
+    if (!(job.replaced || expired)) {
+      return false;
+    }
+
+    if (job.replaced) {
+      this.dropped.replaced++;
+    } else {
+      this.dropped.expired++;
+    }
+
+    this.logger.info(
+      { botName, stage, replaced: job.replaced, ...this.getStats() },
+      'Dropped stale queued response'
+    );
+    return true;
   }
 
   private async randomDelay(min: number, max: number): Promise<void> {
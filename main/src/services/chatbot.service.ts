@@ -1,16 +1,24 @@
 import type { RefreshingAuthProvider } from '@twurple/auth';
-import { ChatClient } from '@twurple/chat';
+import { ChatClient, UserState } from '@twurple/chat';
 import { createLogger } from '@/shared/logger';
 import type { TokenManager } from '@/shared/token.service';
 import { env } from '../env';
 import type { BotConfig } from './config-manager';
 
+const ELEVATED_BADGE_PATTERN = /(^|,)(broadcaster|moderator|vip)\//;
+
+export interface ReplyTarget {
+  user: string;
+  messageId?: string;
+}
+
 export class ChatbotService {
   private readonly bot: ChatClient;
   private readonly authProvider_: RefreshingAuthProvider;
   private readonly twitchChannel = env.TWITCH_CHANNEL_NAME;
   private readonly botName_: string;
   private config: BotConfig;
+  private isElevated = false;
   private logger = createLogger('ChatbotService');
 
   private constructor(
@@ -23,6 +31,8 @@ export class ChatbotService {
     this.bot = bot;
     this.botName_ = botName;
     this.config = config;
+
+    this.trackUserState();
   }
 
   static async create(
@@ -54,12 +64,83 @@ export class ChatbotService {
     return this.botName_;
   }
 
+  /**
+   * Whether Twitch gives this account the higher mod/VIP chat rate limit in
+   * the channel, as reported by the last USERSTATE
+   */
+  get hasElevatedRateLimit(): boolean {
+    return this.isElevated;
+  }
+
   getName(): string {
     return this.botName_;
   }
 
-  say(message: string): void {
-    this.bot.say(this.twitchChannel, message);
+  /**
+   * Send a chat message. With a reply target the message is posted as a
+   * threaded reply, falling back to an @user prefix when threading fails
+   * or there is no message ID to thread on. Resolves to false when the
+   * message could not be posted.
+   */
+  async say(message: string, replyTo?: ReplyTarget): Promise<boolean> {
+    try {
+      if (!replyTo) {
+        await this.bot.say(this.twitchChannel, message);
+      } else if (replyTo.messageId) {
+        await this.sayThreaded(message, replyTo.messageId, replyTo.user);
+      } else {
+        await this.bot.say(
+          this.twitchChannel,
+          this.withMention(message, replyTo.user)
+        );
+      }
+      return true;
+    } catch (error) {
+      this.logger.error(
+        { err: error, botName: this.botName_, replyTo },
+        'Failed to send chat message'
+      );
+      return false;
+    }
+  }
+
+  private async sayThreaded(
+    message: string,
+    messageId: string,
+    user: string
+  ): Promise<void> {
+    try {
+      await this.bot.say(this.twitchChannel, message, { replyTo: messageId });
+    } catch (error) {
+      this.logger.warn(
+        { err: error, replyTo: { user, messageId } },
+        'Threaded reply failed, falling back to mention'
+      );
+      await this.bot.say(this.twitchChannel, this.withMention(message, user));
+    }
+  }
+
+  private trackUserState(): void {
+    this.bot.irc.onTypedMessage(UserState, ({ tags }) => {
+      const badges = tags.get('badges') ?? '';
+      const isElevated =
+        tags.get('mod') === '1' || ELEVATED_BADGE_PATTERN.test(badges);
+
+      if (isElevated !== this.isElevated) {
+        this.logger.info(
+          { botName: this.botName_, isElevated },
+          'Chat rate limit tier changed'
+        );
+      }
+      this.isElevated = isElevated;
+    });
+  }
+
+  private withMention(message: string, user: string): string {
+    if (message.toLowerCase().includes(`@${user.toLowerCase()}`)) {
+      return message;
+    }
+    return `@${user} ${message}`;
   }
 
   joinChannel(): void {
@@ -2,20 +2,281 @@ import { existsSync } from 'node:fs';
 import { EventEmitter } from 'tseep';
 import { createLogger } from '@/shared/logger';
 import { env } from '../env';
+import type { Role } from './chat-listener.service';
+import { validateModerationSettings } from './moderation-policy';
+import type { TriggerType } from './trigger-policy';
+
+export interface TriggerPolicy {
+  replyChance?: number;
+  keywords?: string[];
+  patterns?: string[];
+  cooldownSeconds?: number;
+  maxResponsesPerMinute?: number;
+  quietHours?: {
+    start: string;
+    end: string;
+    timezone?: string;
+  };
+}
+
+export interface OutputSettings {
+  maxChars?: number;
+  allowMultiMessage?: boolean;
+  maxMessages?: number;
+  stripActions?: boolean;
+  stripQuotes?: boolean;
+}
+
+export interface ContextSettings {
+  /** Token budget for recent chat, estimated for the bot's model */
+  maxTokens?: number;
+  maxAgeMinutes?: number;
+  /** Leave other bots' messages out of this bot's context */
+  excludeOtherBots?: boolean;
+  /** Keep messages to or from this bot ahead of unrelated chatter */
+  preferInvolved?: boolean;
+}
+
+export interface HistorySettings {
+  /** Messages kept in the shared history each bot's context is cut from */
+  maxMessages?: number;
+  maxAgeMinutes?: number;
+}
+
+export interface BotBanterConfig {
+  affinity?: Record<string, number>;
+}
+
+export interface BanterSettings {
+  maxTurns?: number;
+  humanSilenceSeconds?: number;
+  defaultAffinity?: number;
+}
+
+export interface RateLimitSettings {
+  viewerReplies?: number;
+  viewerWindowSeconds?: number;
+  channelReplies?: number;
+  channelWindowSeconds?: number;
+  exemptRoles?: Role[];
+  throttledMentions?: 'drop' | 'group';
+}
+
+export interface CommandSettings {
+  prefix?: string;
+  /** Bot account that answers commands; defaults to the moderator bot */
+  responder?: string;
+}
+
+export interface MemorySettings {
+  enabled?: boolean;
+  /** Model that extracts memories; defaults to the bot's own model */
+  model?: string;
+  /** Provider for `model`; defaults to the bot's own provider */
+  provider?: string;
+  maxPerViewer?: number;
+  maxInPrompt?: number;
+  /** Forget memories that have not come up for this many days */
+  decayDays?: number;
+}
+
+export interface SummarySettings {
+  enabled?: boolean;
+  /** Cheap model that writes the summary; defaults to the first chatter's */
+  model?: string;
+  /** Provider for `model`; defaults to openrouter */
+  provider?: string;
+  /** Summarize once this many messages have left the chat window */
+  everyMessages?: number;
+  /** Also summarize whatever has left the window this often */
+  intervalSeconds?: number;
+  /** Output token budget for the summary */
+  maxTokens?: number;
+}
+
+export type ProviderType =
+  | 'openrouter'
+  | 'openai-compatible'
+  | 'ollama'
+  | 'llama.cpp';
+
+export interface ProviderConfig {
+  type: ProviderType;
+  /** Required for openai-compatible; ollama and llama.cpp default to localhost */
+  baseURL?: string;
+  apiKey?: string;
+  /** Name of the environment variable holding the API key */
+  apiKeyEnv?: string;
+  headers?: Record<string, string>;
+}
+
+export interface BudgetSettings {
+  /** Estimated USD per calendar day (server time) */
+  dailyUsd?: number;
+  /** Estimated USD per stream session */
+  sessionUsd?: number;
+  /** What happens once a cap is hit */
+  onExceeded?: 'demote' | 'mute';
+  /** Model used while demoted, on the bot's provider */
+  cheapModel?: string;
+}
+
+export type MessageComplexity = 'simple' | 'complex';
+
+/** Model settings a routing rule swaps in for the bot's own */
+export interface ModelTier {
+  model: string;
+  /** Defaults to the bot's provider */
+  provider?: string;
+  fallbackModels?: string[];
+  maxTokens?: number;
+}
+
+/** Matches when every condition it sets holds for the triggering message */
+export interface RoutingRule {
+  tier: string;
+  triggers?: TriggerType[];
+  roles?: Role[];
+  minLength?: number;
+  maxLength?: number;
+  /** Message reads as a question */
+  question?: boolean;
+  /** Verdict of the classifier model */
+  complexity?: MessageComplexity;
+}
+
+export interface RoutingSettings {
+  tiers?: Record<string, ModelTier>;
+  /** Checked in order, first match wins; no match uses the bot's own model */
+  rules?: RoutingRule[];
+  /** Cheap model for rules that match on `complexity` */
+  classifierModel?: string;
+  /** Provider for `classifierModel`; defaults to the bot's provider */
+  classifierProvider?: string;
+}
+
+export type ModerationAction = 'warn' | 'delete' | 'timeout' | 'ban';
+
+export type ModerationSeverity = 'low' | 'medium' | 'high';
+
+export interface ModerationRule {
+  /** Short stable name the model reports violations under */
+  id: string;
+  description: string;
+  severity: ModerationSeverity;
+  /** Messages that break the rule, shown to the model */
+  examples?: string[];
+  action: ModerationAction;
+  /** Timeout length in seconds, for `timeout` */
+  duration?: number;
+  /** Words the pre-filter catches, including leetspeak and lookalike forms */
+  words?: string[];
+  /** Regular expressions the pre-filter catches, case-insensitive */
+  patterns?: string[];
+  /**
+   * Trust the pre-filter alone for this rule. When every rule is local-only,
+   * messages that pass the pre-filter skip the model.
+   */
+  localOnly?: boolean;
+  /** Only log what would have been done, e.g. to trial a new rule */
+  shadow?: boolean;
+}
+
+export interface PrefilterSettings {
+  enabled?: boolean;
+  /** Report links under this rule, except to allowed domains */
+  links?: { rule: string; allow?: string[] };
+  /** Report mostly-uppercase messages under this rule */
+  caps?: { rule: string; ratio?: number; minLength?: number };
+  /** Report long runs of one character under this rule */
+  repeats?: { rule: string; maxRun?: number };
+}
+
+export interface BatchingSettings {
+  /** Send queued messages to the model once this many are waiting */
+  maxBatchSize?: number;
+  /** Longest a message waits before it is sent */
+  maxDelaySeconds?: number;
+  /** Shorter wait once a queued message looks urgent */
+  urgentDelaySeconds?: number;
+  /** Messages per model call; larger batches are split */
+  maxPerCall?: number;
+  /** Earlier chat messages shown to the model as read-only context */
+  contextMessages?: number;
+}
+
+export interface EscalationSettings {
+  enabled?: boolean;
+  /** Timeout lengths in seconds, climbed after a warning and a deletion */
+  timeouts?: number[];
+  /** Strikes older than this stop counting */
+  strikeDecayDays?: number;
+  /** How long a ban waits for a mod to confirm it */
+  banConfirmMinutes?: number;
+}
+
+export interface ModerationSettings {
+  /** Replaces the built-in rules when set */
+  rules?: ModerationRule[];
+  /** Extra context for the moderator model, e.g. what the channel is about */
+  guidelines?: string;
+  escalation?: EscalationSettings;
+  filters?: PrefilterSettings;
+  batching?: BatchingSettings;
+  /** Shadow every rule, e.g. while trying out a new moderator model */
+  shadow?: boolean;
+}
+
+/** USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
 
 export interface BotConfig {
   name: string;
   role: 'chatter' | 'moderator';
+  /** Key of a `[providers.*]` table; defaults to openrouter */
+  provider?: string;
   model: string;
   systemPrompt: string;
   temperature?: number;
   maxTokens?: number;
   fallbackModels?: string[];
+  /** Per-model time limit for a reply, retries included */
+  timeoutSeconds?: number;
+  /** Retries on the same model before falling back; defaults to none */
+  maxRetries?: number;
   introMessage?: string;
+  description?: string;
+  triggers?: TriggerPolicy;
+  banter?: BotBanterConfig;
+  output?: OutputSettings;
+  context?: ContextSettings;
+  budget?: BudgetSettings;
+  routing?: RoutingSettings;
+}
+
+/**
+ * Values changed from chat at runtime. Layered over the file config and
+ * never written back to bots.toml.
+ */
+export interface RuntimeOverride {
+  temperature?: number;
+  replyChance?: number;
 }
 
 interface ConfigFile {
   bots: BotConfig[];
+  banter?: BanterSettings;
+  rateLimit?: RateLimitSettings;
+  commands?: CommandSettings;
+  memory?: MemorySettings;
+  summary?: SummarySettings;
+  history?: HistorySettings;
+  providers?: Record<string, ProviderConfig>;
+  pricing?: Record<string, ModelPrice>;
+  moderation?: ModerationSettings;
 }
 
 export class ConfigManager extends EventEmitter<{
@@ -24,6 +285,7 @@ export class ConfigManager extends EventEmitter<{
 }> {
   private config: ConfigFile | null = null;
   private configPath: string;
+  private readonly runtimeOverrides = new Map<string, RuntimeOverride>();
   private logger = createLogger('ConfigManager');
 
   constructor(configPath?: string) {
@@ -64,12 +326,25 @@ export class ConfigManager extends EventEmitter<{
       // Bun can import TOML directly!
       const imported = await import(timestampedPath);
       // TOML imports have the data as named exports
-      const newConfig = { bots: imported.bots } as ConfigFile;
+      const newConfig = {
+        bots: imported.bots,
+        banter: imported.banter,
+        rateLimit: imported.rateLimit,
+        commands: imported.commands,
+        memory: imported.memory,
+        summary: imported.summary,
+        history: imported.history,
+        providers: imported.providers,
+        pricing: imported.pricing,
+        moderation: imported.moderation,
+      } as ConfigFile;
 
       // Validate before applying
       if (!(newConfig.bots && Array.isArray(newConfig.bots))) {
         throw new Error('Invalid config: missing bots array');
       }
+      validateModerationSettings(newConfig.moderation);
+      this.warnUnpricedBudgets(newConfig);
 
       // Only update if validation passes
       this.config = newConfig;
@@ -81,15 +356,60 @@ export class ConfigManager extends EventEmitter<{
     }
   }
 
+  /**
+   * Spend caps only count priced models, so a capped bot running an unpriced
+   * one would never hit its cap
+   */
+  private warnUnpricedBudgets(config: ConfigFile): void {
+    for (const bot of config.bots) {
+      if (!bot.budget) {
+        continue;
+      }
+
+      const unpriced = [
+        bot.model,
+        ...(bot.fallbackModels ?? []),
+        ...(bot.budget.cheapModel ? [bot.budget.cheapModel] : []),
+      ].filter((model) => !config.pricing?.[model]);
+      if (unpriced.length > 0) {
+        this.logger.warn(
+          { botName: bot.name, models: unpriced },
+          'Budgeted bot uses models with no price, their calls count as free'
+        );
+      }
+    }
+  }
+
   // Removed setupWatcher method - file watching causes issues with volume mounts
 
   destroy(): void {
     // No cleanup needed since file watcher was removed
   }
 
+  setRuntimeOverride(botName: string, override: RuntimeOverride): void {
+    this.runtimeOverrides.set(botName, {
+      ...this.runtimeOverrides.get(botName),
+      ...override,
+    });
+    this.logger.info({ botName, override }, 'Runtime override set');
+    this.emit('config:updated');
+  }
+
+  clearRuntimeOverrides(): void {
+    if (this.runtimeOverrides.size === 0) {
+      return;
+    }
+
+    this.runtimeOverrides.clear();
+    this.logger.info('Runtime overrides cleared');
+    this.emit('config:updated');
+  }
+
   // Simple getters - consumers can call these after update event
   getBots(): BotConfig[] {
-    return this.config?.bots || [];
+    return (this.config?.bots || []).map((bot) =>
+      this.applyRuntimeOverride(bot)
+    );
   }
 
   getBot(name: string): BotConfig | undefined {
@@ -103,4 +423,62 @@ export class ConfigManager extends EventEmitter<{
   getChatters(): BotConfig[] {
     return this.getBots().filter((bot) => bot.role === 'chatter');
   }
+
+  private applyRuntimeOverride(bot: BotConfig): BotConfig {
+    const override = this.runtimeOverrides.get(bot.name);
+    if (!override) {
+      return bot;
+    }
+
+    return {
+      ...bot,
+      ...(override.temperature !== undefined && {
+        temperature: override.temperature,
+      }),
+      ...(override.replyChance !== undefined && {
+        triggers: { ...bot.triggers, replyChance: override.replyChance },
+      }),
+    };
+  }
+
+  getBanterSettings(): BanterSettings {
+    return this.config?.banter ?? {};
+  }
+
+  getRateLimitSettings(): RateLimitSettings {
+    return this.config?.rateLimit ?? {};
+  }
+
+  getCommandSettings(): CommandSettings {
+    return this.config?.commands ?? {};
+  }
+
+  getMemorySettings(): MemorySettings {
+    return this.config?.memory ?? {};
+  }
+
+  getSummarySettings(): SummarySettings {
+    return this.config?.summary ?? {};
+  }
+
+  getHistorySettings(): HistorySettings {
+    return this.config?.history ?? {};
+  }
+
+  getProviderConfig(name: string): ProviderConfig | undefined {
+    return this.config?.providers?.[name];
+  }
+
+  getModerationSettings(): ModerationSettings {
+    return this.config?.moderation ?? {};
+  }
+
+  getModelPrice(model: string): ModelPrice | undefined {
+    return this.config?.pricing?.[model];
+  }
+
+  isBotName(user: string): boolean {
+    const lowerUser = user.toLowerCase();
+    return this.getBots().some((bot) => bot.name.toLowerCase() === lowerUser);
+  }
 }
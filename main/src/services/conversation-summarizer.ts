@@ -0,0 +1,180 @@
+import { createLogger } from '@/shared/logger';
+import type { AIService } from './ai.service';
+import type { ChatMessage } from './chat-listener.service';
+import type { ConfigManager, SummarySettings } from './config-manager';
+
+export const DEFAULT_SUMMARY_SETTINGS = {
+  enabled: true,
+  everyMessages: 20,
+  intervalSeconds: 120,
+  maxTokens: 200,
+} as const satisfies Required<Omit<SummarySettings, 'model' | 'provider'>>;
+
+// Evicted messages kept while waiting for a summary, oldest dropped first
+const MAX_PENDING_MESSAGES = 200;
+
+/**
+ * Condenses messages that fall out of a bot's context or the shared chat
+ * window into a running
+ * "what's happening in chat" summary for the current stream session.
+ * Summaries run once enough messages have piled up or on a timer,
+ * whichever comes first, and never more than one at a time.
+ */
+export class ConversationSummarizer {
+  private summary = '';
+  private pending: ChatMessage[] = [];
+  // Newest message queued so far; a message can leave several windows
+  private queuedUntil = 0;
+  private inFlight = false;
+  // Bumped on reset so a summary from the previous session is discarded
+  private session = 0;
+  private inFlightAbort: AbortController | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private readonly ai: AIService;
+  private readonly configManager: ConfigManager;
+  private logger = createLogger('ConversationSummarizer');
+
+  constructor(ai: AIService, configManager: ConfigManager) {
+    this.ai = ai;
+    this.configManager = configManager;
+  }
+
+  start(): void {
+    this.stopTimer();
+
+    const intervalSeconds =
+      this.getSettings().intervalSeconds ??
+      DEFAULT_SUMMARY_SETTINGS.intervalSeconds;
+    this.timer = setInterval(() => this.summarize(), intervalSeconds * 1000);
+  }
+
+  /**
+   * Forget the summary and anything waiting to be summarized
+   */
+  reset(): void {
+    this.stopTimer();
+    this.inFlightAbort?.abort();
+    this.inFlightAbort = null;
+    this.session++;
+    this.summary = '';
+    this.pending = [];
+    this.queuedUntil = 0;
+    this.inFlight = false;
+    this.logger.info('Conversation summary reset');
+  }
+
+  getSummary(): string {
+    return this.summary;
+  }
+
+  /**
+   * Queue messages that left a bot's context or the shared window, in chat
+   * order. Messages already queued are skipped.
+   */
+  addEvicted(messages: ChatMessage[]): void {
+    const settings = this.getSettings();
+    if (!(settings.enabled ?? DEFAULT_SUMMARY_SETTINGS.enabled)) {
+      return;
+    }
+
+    const fresh = messages.filter((msg) => msg.timestamp > this.queuedUntil);
+    const newest = fresh.at(-1);
+    if (!newest) {
+      return;
+    }
+    this.queuedUntil = newest.timestamp;
+
+    this.pending.push(...fresh);
+    this.pending = this.pending.slice(-MAX_PENDING_MESSAGES);
+
+    const everyMessages =
+      settings.everyMessages ?? DEFAULT_SUMMARY_SETTINGS.everyMessages;
+    if (this.pending.length >= everyMessages) {
+      this.summarize();
+    }
+  }
+
+  private async summarize(): Promise<void> {
+    if (this.inFlight || this.pending.length === 0) {
+      return;
+    }
+
+    const settings = this.getSettings();
+    const target = this.resolveModel(settings);
+    if (!target) {
+      return;
+    }
+
+    const session = this.session;
+    const messages = this.pending;
+    this.pending = [];
+    this.inFlight = true;
+    const abort = new AbortController();
+    this.inFlightAbort = abort;
+
+    try {
+      const summary = await this.ai.summarizeConversation({
+        ...target,
+        previousSummary: this.summary,
+        messages,
+        maxTokens: settings.maxTokens ?? DEFAULT_SUMMARY_SETTINGS.maxTokens,
+        abortSignal: abort.signal,
+      });
+
+      if (session !== this.session) {
+        return;
+      }
+      if (summary) {
+        this.summary = summary;
+        this.logger.debug(
+          { summarized: messages.length, summary },
+          'Conversation summary updated'
+        );
+      } else {
+        // Keep the messages for the next attempt
+        this.pending = [...messages, ...this.pending].slice(
+          -MAX_PENDING_MESSAGES
+        );
+      }
+    } finally {
+      if (session === this.session) {
+        this.inFlight = false;
+        this.inFlightAbort = null;
+      }
+    }
+  }
+
+  /**
+   * The configured summary model, or the first chatter's model and provider
+   */
+  private resolveModel(
+    settings: SummarySettings
+  ): { model: string; provider?: string } | null {
+    if (settings.model) {
+      return {
+        model: settings.model,
+        ...(settings.provider && { provider: settings.provider }),
+      };
+    }
+
+    const chatter = this.configManager.getChatters()[0];
+    if (!chatter) {
+      return null;
+    }
+    return {
+      model: chatter.model,
+      ...(chatter.provider && { provider: chatter.provider }),
+    };
+  }
+
+  private getSettings(): SummarySettings {
+    return this.configManager.getSummarySettings();
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
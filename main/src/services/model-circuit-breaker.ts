@@ -0,0 +1,193 @@
+import { APICallError, RetryError } from 'ai';
+import { createLogger } from '@/shared/logger';
+
+// Consecutive timeouts or outages before a model is skipped
+const FAILURE_THRESHOLD = 3;
+const COOLDOWN_MS = 60_000;
+// Longest Retry-After we honour, so one bad header can't park a model
+const MAX_RATE_LIMIT_COOLDOWN_MS = 10 * 60_000;
+
+const TIMEOUT_MESSAGE_PATTERN = /timed? ?out|timeout|ETIMEDOUT/i;
+// AI SDK errors raised when the model answered but the output was unusable
+const CONTENT_ERROR_NAMES = [
+  'NoObjectGenerated',
+  'TypeValidation',
+  'JSONParse',
+  'NoContentGenerated',
+];
+
+/**
+ * Why a model call failed:
+ * - `timeout` and `rate-limit`: the model is busy, try another one
+ * - `unavailable`: outage, bad model ID, out of credits
+ * - `content`: the request or the model's output was the problem, e.g. a
+ *   refusal or an object that failed the schema. Says nothing about the
+ *   model's health.
+ */
+export type ModelFailureKind =
+  | 'timeout'
+  | 'rate-limit'
+  | 'unavailable'
+  | 'content';
+
+/**
+ * Thrown for a response that came back fine but had nothing usable in it
+ */
+export class EmptyModelResponseError extends Error {
+  constructor(model: string) {
+    super(`Empty response from ${model}`);
+    this.name = 'EmptyModelResponseError';
+  }
+}
+
+interface BreakerState {
+  failures: number;
+  openUntil: number;
+}
+
+export function classifyModelError(error: unknown): ModelFailureKind {
+  const cause = RetryError.isInstance(error) ? error.lastError : error;
+
+  if (APICallError.isInstance(cause)) {
+    return classifyStatus(cause.statusCode);
+  }
+  if (!(cause instanceof Error)) {
+    return 'unavailable';
+  }
+
+  if (
+    cause.name === 'AbortError' ||
+    cause.name === 'TimeoutError' ||
+    TIMEOUT_MESSAGE_PATTERN.test(cause.message)
+  ) {
+    return 'timeout';
+  }
+
+  if (
+    cause instanceof EmptyModelResponseError ||
+    CONTENT_ERROR_NAMES.some((name) => cause.name.includes(name))
+  ) {
+    return 'content';
+  }
+
+  // Network failures and anything else unexpected
+  return 'unavailable';
+}
+
+function classifyStatus(status: number | undefined): ModelFailureKind {
+  switch (status) {
+    case 429:
+      return 'rate-limit';
+    case 408:
+    case 504:
+      return 'timeout';
+    case 400:
+    case 422:
+      return 'content';
+    default:
+      return 'unavailable';
+  }
+}
+
+function retryAfterMs(error: unknown): number | undefined {
+  const cause = RetryError.isInstance(error) ? error.lastError : error;
+  if (!APICallError.isInstance(cause)) {
+    return;
+  }
+
+  const seconds = Number(cause.responseHeaders?.['retry-after']);
+  return Number.isFinite(seconds) && seconds > 0
+    ? Math.min(seconds * 1000, MAX_RATE_LIMIT_COOLDOWN_MS)
+    : undefined;
+}
+
+/**
+ * Tracks model health across every bot and skips a model for a cooldown
+ * once it keeps timing out or failing. A 429 opens the breaker straight
+ * away, for as long as the provider asked when it says.
+ */
+export class ModelCircuitBreaker {
+  private readonly states = new Map<string, BreakerState>();
+  private logger = createLogger('ModelCircuitBreaker');
+
+  isOpen(model: string, now = Date.now()): boolean {
+    const state = this.states.get(model);
+    return state !== undefined && state.openUntil > now;
+  }
+
+  recordSuccess(model: string): void {
+    this.states.delete(model);
+  }
+
+  recordFailure(model: string, error: unknown): ModelFailureKind {
+    const kind = classifyModelError(error);
+    if (kind === 'content') {
+      return kind;
+    }
+
+    const state = this.states.get(model) ?? { failures: 0, openUntil: 0 };
+    state.failures++;
+
+    if (kind === 'rate-limit') {
+      state.openUntil = Date.now() + (retryAfterMs(error) ?? COOLDOWN_MS);
+    } else if (state.failures >= FAILURE_THRESHOLD) {
+      state.openUntil = Date.now() + COOLDOWN_MS;
+    }
+
+    this.states.set(model, state);
+
+    if (state.openUntil > Date.now()) {
+      this.logger.warn(
+        {
+          model,
+          kind,
+          failures: state.failures,
+          cooldownMs: state.openUntil - Date.now(),
+        },
+        'Circuit open, skipping model'
+      );
+    }
+    return kind;
+  }
+
+  /**
+   * Call `attempt` with each model in order until one succeeds, skipping
+   * models whose breaker is open. Throws the last error if none succeed.
+   * Once `signal` aborts, no further models are tried and the failure is
+   * not held against the model.
+   */
+  async run<T>(
+    models: string[],
+    attempt: (model: string) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<{ model: string; result: T }> {
+    const candidates = [...new Set(models)];
+    let lastError: unknown = new Error(
+      `All models unavailable: ${candidates.join(', ')}`
+    );
+
+    for (const model of candidates) {
+      signal?.throwIfAborted();
+      if (this.isOpen(model)) {
+        this.logger.debug({ model }, 'Skipping model, circuit open');
+        continue;
+      }
+
+      try {
+        // biome-ignore lint/nursery/noAwaitInLoop: fallbacks run one at a time
+        const result = await attempt(model);
+        this.recordSuccess(model);
+        return { model, result };
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        const kind = this.recordFailure(model, error);
+        this.logger.warn({ err: error, model, kind }, 'Model call failed');
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+}
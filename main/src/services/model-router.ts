@@ -0,0 +1,106 @@
+import { createLogger } from '@/shared/logger';
+import type { Role } from './chat-listener.service';
+import type {
+  BotConfig,
+  MessageComplexity,
+  ModelTier,
+  RoutingRule,
+} from './config-manager';
+import type { TriggerType } from './trigger-policy';
+
+const QUESTION_START_PATTERN =
+  /^(who|what|when|where|why|how|which|is|are|can|could|should|would|will|do|does|did)\b/i;
+const MENTION_PATTERN = /@\w+/g;
+
+const logger = createLogger('ModelRouter');
+// Unknown tiers already warned about, so a typo doesn't log every message
+const reportedUnknownTiers = new Set<string>();
+
+/** What a reply is being generated for, as far as routing cares */
+export interface RouteRequest {
+  trigger: TriggerType;
+  /** Text of the message being answered */
+  text: string;
+  role: Role;
+}
+
+export interface RoutedModel {
+  /** Matched tier, or undefined for the bot's own model */
+  tier?: string;
+  botConfig: BotConfig;
+}
+
+export function isQuestion(text: string): boolean {
+  const stripped = text.replace(MENTION_PATTERN, '').trim();
+  return stripped.includes('?') || QUESTION_START_PATTERN.test(stripped);
+}
+
+/**
+ * Conditions that need no model call. A rule with no conditions matches
+ * everything.
+ */
+function matchesLocally(rule: RoutingRule, request: RouteRequest): boolean {
+  const length = request.text.length;
+
+  return (
+    (!rule.triggers || rule.triggers.includes(request.trigger)) &&
+    (!rule.roles || rule.roles.includes(request.role)) &&
+    (rule.minLength === undefined || length >= rule.minLength) &&
+    (rule.maxLength === undefined || length <= rule.maxLength) &&
+    (rule.question === undefined || rule.question === isQuestion(request.text))
+  );
+}
+
+function warnUnknownTier(botName: string, tier: string): void {
+  const key = `${botName}:${tier}`;
+  if (!reportedUnknownTiers.has(key)) {
+    reportedUnknownTiers.add(key);
+    logger.warn({ botName, tier }, 'Routing rule points at an unknown tier');
+  }
+}
+
+function applyTier(botConfig: BotConfig, tier: ModelTier): BotConfig {
+  return {
+    ...botConfig,
+    model: tier.model,
+    fallbackModels: tier.fallbackModels ?? [],
+    ...(tier.provider && { provider: tier.provider }),
+    ...(tier.maxTokens && { maxTokens: tier.maxTokens }),
+  };
+}
+
+/**
+ * Pick the bot's model tier for a message from its `[bots.routing]` rules.
+ * The classifier only runs once a rule that needs it matches everything
+ * else, and at most once per message; if it fails the rule is skipped.
+ */
+export async function routeModel(
+  botConfig: BotConfig,
+  request: RouteRequest,
+  classify: () => Promise<MessageComplexity | null>
+): Promise<RoutedModel> {
+  const { tiers = {}, rules = [] } = botConfig.routing ?? {};
+  let classified: Promise<MessageComplexity | null> | undefined;
+  const getComplexity = () => {
+    classified ??= classify();
+    return classified;
+  };
+
+  for (const rule of rules) {
+    const tier = tiers[rule.tier];
+    if (!tier) {
+      warnUnknownTier(botConfig.name, rule.tier);
+      continue;
+    }
+
+    if (
+      matchesLocally(rule, request) &&
+      // biome-ignore lint/nursery/noAwaitInLoop: classified once, lazily
+      (!rule.complexity || (await getComplexity()) === rule.complexity)
+    ) {
+      return { tier: rule.tier, botConfig: applyTier(botConfig, tier) };
+    }
+  }
+
+  return { botConfig };
+}
@@ -0,0 +1,149 @@
+import { EventEmitter } from 'tseep';
+import { createLogger } from '@/shared/logger';
+import type { ChatMessage } from './chat-listener.service';
+import type { BatchingSettings } from './config-manager';
+import { findLinks, type PrefilterVerdict } from './moderation-prefilter';
+
+export const DEFAULT_BATCHING_SETTINGS = {
+  maxBatchSize: 20,
+  maxDelaySeconds: 10,
+  urgentDelaySeconds: 2,
+  maxPerCall: 10,
+  contextMessages: 5,
+} satisfies Required<BatchingSettings>;
+
+// Recent chat kept for context, whoever sent it
+const HISTORY_LIMIT = 100;
+
+export interface ModerationBatch {
+  /** Messages to judge */
+  messages: ChatMessage[];
+  /** Chat just before them, never judged */
+  context: ChatMessage[];
+}
+
+/**
+ * Cheap signs a message should reach the model sooner: the pre-filter found
+ * something close to a rule, a link, or a viewer's first message
+ */
+export function looksUrgent(
+  msg: ChatMessage,
+  verdict: PrefilterVerdict
+): boolean {
+  return (
+    verdict.kind === 'suspect' ||
+    msg.isFirstMessage ||
+    findLinks(msg.message).length > 0
+  );
+}
+
+/**
+ * Queues messages for the moderator model. A batch is sent when enough
+ * messages are waiting or the oldest has waited long enough, sooner when one
+ * looks urgent, and is split into chunks of at most `maxPerCall`.
+ */
+export class ModerationBatcher extends EventEmitter<{
+  batch: (batch: ModerationBatch) => void;
+}> {
+  private settings: Required<BatchingSettings>;
+  private queue: ChatMessage[] = [];
+  private history: ChatMessage[] = [];
+  private flushTimer: NodeJS.Timeout | undefined;
+  private flushAt = Number.POSITIVE_INFINITY;
+  private logger = createLogger('ModerationBatcher');
+
+  constructor(settings: BatchingSettings = {}) {
+    super();
+    this.settings = { ...DEFAULT_BATCHING_SETTINGS, ...settings };
+  }
+
+  get size(): number {
+    return this.queue.length;
+  }
+
+  updateSettings(settings: BatchingSettings = {}): void {
+    this.settings = { ...DEFAULT_BATCHING_SETTINGS, ...settings };
+  }
+
+  /** Remember a chat message as possible context for later batches */
+  observe(msg: ChatMessage): void {
+    this.history.push(msg);
+    if (this.history.length > HISTORY_LIMIT) {
+      this.history.shift();
+    }
+  }
+
+  add(msg: ChatMessage, urgent = false): void {
+    this.queue.push(msg);
+
+    if (this.queue.length >= this.settings.maxBatchSize) {
+      this.flush('size');
+      return;
+    }
+
+    const delaySeconds = urgent
+      ? this.settings.urgentDelaySeconds
+      : this.settings.maxDelaySeconds;
+    this.scheduleFlush(Date.now() + delaySeconds * 1000);
+  }
+
+  flush(reason = 'manual'): void {
+    this.cancelFlush();
+    const messages = this.queue;
+    this.queue = [];
+    if (messages.length === 0) {
+      return;
+    }
+
+    this.logger.debug(
+      { messages: messages.length, reason },
+      'Flushing moderation batch'
+    );
+    for (let i = 0; i < messages.length; i += this.settings.maxPerCall) {
+      const chunk = messages.slice(i, i + this.settings.maxPerCall);
+      this.emit('batch', { messages: chunk, context: this.contextFor(chunk) });
+    }
+  }
+
+  /** Drop queued messages and history, e.g. when the stream ends */
+  clear(): void {
+    this.cancelFlush();
+    this.queue = [];
+    this.history = [];
+  }
+
+  /**
+   * The few messages seen right before the chunk's first message
+   */
+  private contextFor(chunk: ChatMessage[]): ChatMessage[] {
+    const first = chunk[0];
+    const index = this.history.findIndex((msg) => msg.id === first?.id);
+    if (index <= 0) {
+      return [];
+    }
+    return this.history.slice(
+      Math.max(0, index - this.settings.contextMessages),
+      index
+    );
+  }
+
+  // Only ever moves the flush earlier, so later messages never delay a batch
+  private scheduleFlush(at: number): void {
+    if (at >= this.flushAt) {
+      return;
+    }
+
+    this.cancelFlush();
+    this.flushAt = at;
+    this.flushTimer = setTimeout(
+      () => this.flush('delay'),
+      Math.max(0, at - Date.now())
+    );
+  }
+
+  private cancelFlush(): void {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    this.flushAt = Number.POSITIVE_INFINITY;
+  }
+}
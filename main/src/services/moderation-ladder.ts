@@ -0,0 +1,81 @@
+import type {
+  EscalationSettings,
+  ModerationAction,
+  ModerationRule,
+} from './config-manager';
+import { SEVERITY_RANK } from './moderation-policy';
+
+export const DEFAULT_ESCALATION_SETTINGS = {
+  enabled: true,
+  timeouts: [60, 600, 3600],
+  strikeDecayDays: 30,
+  banConfirmMinutes: 60,
+} satisfies Required<EscalationSettings>;
+
+const ACTION_RANK: Record<ModerationAction, number> = {
+  warn: 0,
+  delete: 1,
+  timeout: 2,
+  ban: 3,
+};
+
+export interface LadderStep {
+  action: ModerationAction;
+  /** Timeout length in seconds */
+  duration?: number;
+}
+
+export function resolveEscalation(
+  settings: EscalationSettings = {}
+): Required<EscalationSettings> {
+  return {
+    enabled: settings.enabled ?? DEFAULT_ESCALATION_SETTINGS.enabled,
+    timeouts: settings.timeouts ?? DEFAULT_ESCALATION_SETTINGS.timeouts,
+    strikeDecayDays:
+      settings.strikeDecayDays ?? DEFAULT_ESCALATION_SETTINGS.strikeDecayDays,
+    banConfirmMinutes:
+      settings.banConfirmMinutes ??
+      DEFAULT_ESCALATION_SETTINGS.banConfirmMinutes,
+  };
+}
+
+/**
+ * Warning, message deletion, each timeout in order, then a ban
+ */
+export function buildLadder(timeouts: number[]): LadderStep[] {
+  return [
+    { action: 'warn' },
+    { action: 'delete' },
+    ...timeouts.map((duration) => ({ action: 'timeout' as const, duration })),
+    { action: 'ban' },
+  ];
+}
+
+function isHarsher(a: LadderStep, b: LadderStep): boolean {
+  const byAction = ACTION_RANK[a.action] - ACTION_RANK[b.action];
+  return byAction === 0 ? (a.duration ?? 0) > (b.duration ?? 0) : byAction > 0;
+}
+
+/**
+ * The action for a new violation: one rung up per active strike, starting
+ * higher for more severe rules. Never milder than the rule's own action.
+ */
+export function chooseLadderStep(
+  rule: ModerationRule,
+  activeStrikes: number,
+  timeouts: number[]
+): LadderStep {
+  const ladder = buildLadder(timeouts);
+  // An unknown severity starts at the bottom rather than jumping to a ban
+  const start = activeStrikes + (SEVERITY_RANK[rule.severity] ?? 0);
+  const rung = Number.isFinite(start)
+    ? Math.min(Math.max(0, start), ladder.length - 1)
+    : 0;
+  const step = ladder[rung] ?? { action: 'warn' };
+  const floor: LadderStep = {
+    action: rule.action,
+    ...(rule.duration && { duration: rule.duration }),
+  };
+
+  return isHarsher(floor, step) ? floor : step;
+}
@@ -0,0 +1,202 @@
+import z from 'zod';
+import type {
+  ModerationAction,
+  ModerationRule,
+  ModerationSettings,
+  ModerationSeverity,
+} from './config-manager';
+
+const MODERATION_ACTIONS: ModerationAction[] = [
+  'warn',
+  'delete',
+  'timeout',
+  'ban',
+];
+
+export const SEVERITY_RANK: Record<ModerationSeverity, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+};
+
+// Twitch's longest timeout
+export const MAX_TIMEOUT_SECONDS = 1_209_600;
+
+/** Used when bots.toml has no `[moderation]` rules */
+export const DEFAULT_MODERATION_RULES: ModerationRule[] = [
+  {
+    id: 'neckbeard',
+    description:
+      'No mention of "neckbeard" or "neckbearddiscord" in any form, including misspellings',
+    severity: 'low',
+    examples: ['neckbeard', 'n3ckb34rd', 'neck beard discord'],
+    action: 'warn',
+    words: ['neckbeard'],
+  },
+  {
+    id: 'discord',
+    description: 'No mention of "discord" in any form, including misspellings',
+    severity: 'low',
+    examples: ['join my discord', 'd1sc0rd', 'disc ord'],
+    action: 'warn',
+    words: ['discord'],
+  },
+];
+
+export interface ModerationViolation {
+  /** Number of the offending message in the batch, as shown to the model */
+  message: number;
+  /** ID of the broken rule */
+  rule: string;
+  reason: string;
+}
+
+export function getModerationRules(
+  settings: ModerationSettings
+): ModerationRule[] {
+  return settings.rules ?? DEFAULT_MODERATION_RULES;
+}
+
+function validateRule(rule: ModerationRule): void {
+  if (!Object.hasOwn(SEVERITY_RANK, rule.severity)) {
+    throw new Error(
+      `Invalid moderation rule "${rule.id}": unknown severity "${rule.severity}"`
+    );
+  }
+  if (!rule.description?.trim()) {
+    throw new Error(
+      `Invalid moderation rule "${rule.id}": missing description`
+    );
+  }
+  if (!MODERATION_ACTIONS.includes(rule.action)) {
+    throw new Error(
+      `Invalid moderation rule "${rule.id}": unknown action "${rule.action}"`
+    );
+  }
+  if (
+    rule.action === 'timeout' &&
+    !(
+      rule.duration &&
+      rule.duration > 0 &&
+      rule.duration <= MAX_TIMEOUT_SECONDS
+    )
+  ) {
+    throw new Error(
+      `Invalid moderation rule "${rule.id}": timeout needs a duration of 1-${MAX_TIMEOUT_SECONDS} seconds`
+    );
+  }
+  for (const pattern of rule.patterns ?? []) {
+    try {
+      new RegExp(pattern, 'iu');
+    } catch {
+      throw new Error(
+        `Invalid moderation rule "${rule.id}": bad pattern ${JSON.stringify(pattern)}`
+      );
+    }
+  }
+}
+
+function validateFilters(settings: ModerationSettings): void {
+  const ruleIds = new Set(getModerationRules(settings).map((rule) => rule.id));
+  const { links, caps, repeats } = settings.filters ?? {};
+
+  for (const check of [links, caps, repeats]) {
+    if (check && !ruleIds.has(check.rule)) {
+      throw new Error(
+        `Invalid moderation filter: unknown rule "${check.rule}"`
+      );
+    }
+  }
+}
+
+function validateBatching(settings: ModerationSettings): void {
+  const { maxBatchSize, maxPerCall } = settings.batching ?? {};
+
+  for (const size of [maxBatchSize, maxPerCall]) {
+    if (size !== undefined && !(Number.isInteger(size) && size >= 1)) {
+      throw new Error(
+        `Invalid moderation batching: batch sizes must be whole numbers of at least 1, got ${size}`
+      );
+    }
+  }
+}
+
+/**
+ * Throws on a policy the moderator could not act on, so a bad reload keeps
+ * the previous config
+ */
+export function validateModerationSettings(
+  settings: ModerationSettings | undefined
+): void {
+  const seen = new Set<string>();
+
+  for (const rule of settings?.rules ?? []) {
+    if (!rule.id || seen.has(rule.id)) {
+      throw new Error(
+        `Invalid moderation rule: missing or duplicate id "${rule.id}"`
+      );
+    }
+    seen.add(rule.id);
+    validateRule(rule);
+  }
+
+  for (const duration of settings?.escalation?.timeouts ?? []) {
+    if (!(duration > 0 && duration <= MAX_TIMEOUT_SECONDS)) {
+      throw new Error(
+        `Invalid escalation timeout ${duration}: must be 1-${MAX_TIMEOUT_SECONDS} seconds`
+      );
+    }
+  }
+
+  validateFilters(settings ?? {});
+
+  validateBatching(settings ?? {});
+}
+
+function describeRule(rule: ModerationRule): string {
+  const examples = rule.examples?.length
+    ? `\n  Examples: ${rule.examples.map((example) => JSON.stringify(example)).join(', ')}`
+    : '';
+  return `- ${rule.id} (${rule.severity} severity): ${rule.description}${examples}`;
+}
+
+export function buildModerationPrompt(
+  rules: ModerationRule[],
+  guidelines?: string
+): string {
+  const context = guidelines ? `\n\n${guidelines}` : '';
+
+  return `You are a moderator in this Twitch chat.
+Your task is to determine if any users have violated the channel rules.
+Messages are formatted as "#number [viewer status] username: message"; the status tags are context only, never part of the username.${context}
+
+The rules, by id:
+${rules.map(describeRule).join('\n')}
+
+For each violation return the number of the offending message, the id of the rule broken and a brief reason (max 100 chars).
+Report every message that breaks a rule, each once under the most severe rule it breaks.
+A "recent strikes" tag lists a viewer's past offences. Use it to judge intent, but only report messages that break a rule themselves.
+Lines marked "(context)" are earlier chat, shown so you can tell what a message replies to. Never report them.
+Only report clear violations. Return an empty list when nobody broke a rule.`;
+}
+
+/**
+ * Output schema whose rule IDs are limited to the current policy
+ */
+export function buildModerationSchema(rules: ModerationRule[]) {
+  const ruleIds = rules.map((rule) => rule.id) as [string, ...string[]];
+
+  return z.object({
+    violations: z.array(
+      z.object({
+        message: z
+          .number()
+          .int()
+          .nonnegative()
+          .describe('The number of the message that broke the rules'),
+        rule: z.enum(ruleIds).describe('The id of the rule that was broken'),
+        reason: z.string().max(100).describe('The reason for the violation'),
+      })
+    ),
+  });
+}
@@ -0,0 +1,297 @@
+import type { ModerationRule, PrefilterSettings } from './config-manager';
+import { SEVERITY_RANK } from './moderation-policy';
+
+export const DEFAULT_PREFILTER_SETTINGS = {
+  capsRatio: 0.7,
+  capsMinLength: 12,
+  maxRun: 10,
+} as const;
+
+export interface PrefilterHit {
+  kind: 'hit';
+  rule: ModerationRule;
+  reason: string;
+}
+
+export type PrefilterVerdict =
+  | PrefilterHit
+  | { kind: 'suspect'; rule: ModerationRule }
+  | { kind: 'clean' };
+
+const ZERO_WIDTH = /[\u00AD\u200B-\u200F\u2060-\u2064\uFEFF]/g;
+const MARKS = /\p{M}/gu;
+const SEPARATORS = /[^\p{L}\p{N}]/gu;
+const REPEATED = /(.)\1+/gu;
+const WHITESPACE = /\s+/u;
+// Punctuation around a word; leading leetspeak like "$" or "@" is kept
+const EDGE_PUNCTUATION = /^[^\p{L}\p{N}@$|!]+|[^\p{L}\p{N}]+$/gu;
+const LETTERS = /\p{L}/gu;
+const UPPERCASE = /\p{Lu}/u;
+
+const LEETSPEAK: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '8': 'b',
+  '@': 'a',
+  $: 's',
+  '!': 'i',
+  '|': 'l',
+};
+
+// Cyrillic and Greek letters that look like Latin ones
+const HOMOGLYPHS: Record<string, string> = {
+  а: 'a',
+  в: 'b',
+  е: 'e',
+  ё: 'e',
+  з: '3',
+  і: 'i',
+  ј: 'j',
+  к: 'k',
+  м: 'm',
+  н: 'h',
+  о: 'o',
+  р: 'p',
+  с: 'c',
+  т: 't',
+  у: 'y',
+  х: 'x',
+  ѕ: 's',
+  α: 'a',
+  β: 'b',
+  ε: 'e',
+  ι: 'i',
+  κ: 'k',
+  ν: 'v',
+  ο: 'o',
+  ρ: 'p',
+  τ: 't',
+  υ: 'u',
+  χ: 'x',
+};
+
+// Bare domains are only treated as links for common TLDs, so "lol.ok" isn't
+const LINK =
+  /\bhttps?:\/\/([^\s/?#]+)|\b((?:[a-z0-9-]+\.)+(?:com|net|org|gg|tv|io|co|me|ly|xyz|app|dev|live|link|shop|ru|de|uk))\b/gi;
+
+function fold(text: string): string {
+  let folded = '';
+  for (const char of text
+    .normalize('NFKD')
+    .replace(MARKS, '')
+    .replace(ZERO_WIDTH, '')
+    .toLowerCase()) {
+    folded += HOMOGLYPHS[char] ?? char;
+  }
+  return folded;
+}
+
+function unleet(text: string): string {
+  let plain = '';
+  for (const char of text) {
+    plain += LEETSPEAK[char] ?? char;
+  }
+  return plain;
+}
+
+/**
+ * Lowercase text with zero-width characters, accents, lookalike letters and
+ * leetspeak folded away, e.g. "D1ѕс0rd" -> "discord"
+ */
+export function normalizeText(text: string): string {
+  return unleet(fold(text));
+}
+
+/**
+ * Normalized words separated by single spaces, with punctuation around each
+ * word dropped first, so "D1sc0rd!" reads "discord" rather than "discordi"
+ */
+export function normalizeWords(text: string): string {
+  return fold(text)
+    .split(WHITESPACE)
+    .map((word) => unleet(word.replace(EDGE_PUNCTUATION, '')))
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Normalized text without separators or repeated letters, so "d i s c o r d"
+ * and "diiiscord" both read "discord"
+ */
+export function collapseText(normalized: string): string {
+  return normalized.replace(SEPARATORS, '').replace(REPEATED, '$1');
+}
+
+/** Hosts of the links in a message, lowercased */
+export function findLinks(text: string): string[] {
+  return [...text.matchAll(LINK)].map((match) =>
+    (match[1] ?? match[2] ?? '').toLowerCase()
+  );
+}
+
+export function isAllowedHost(host: string, allow: string[]): boolean {
+  return allow.some((domain) => {
+    const lowerDomain = domain.toLowerCase();
+    return host === lowerDomain || host.endsWith(`.${lowerDomain}`);
+  });
+}
+
+/** Share of letters that are uppercase, 0 when there are fewer than `minLength` */
+export function capsRatio(text: string, minLength: number): number {
+  const letters = text.match(LETTERS) ?? [];
+  if (letters.length < minLength) {
+    return 0;
+  }
+  const upper = letters.filter((letter) => UPPERCASE.test(letter));
+  return upper.length / letters.length;
+}
+
+/** Length of the longest run of one repeated character */
+export function longestRun(text: string): number {
+  let longest = 0;
+  let run = 0;
+  let previous = '';
+  for (const char of text) {
+    run = char === previous ? run + 1 : 1;
+    previous = char;
+    longest = Math.max(longest, run);
+  }
+  return longest;
+}
+
+interface CompiledRule {
+  rule: ModerationRule;
+  /** Normalized words, matched whole */
+  words: string[];
+  /** Normalized words, matched inside other text */
+  fragments: string[];
+  collapsedWords: string[];
+  patterns: RegExp[];
+}
+
+/**
+ * Local checks run on every message before the moderator model. Whole-word
+ * and pattern matches are acted on straight away; words found only inside
+ * other words or once squashed together are left for the model to judge.
+ */
+export class ModerationPrefilter {
+  private readonly enabled: boolean;
+  private readonly compiled: CompiledRule[];
+  private readonly rulesById: Map<string, ModerationRule>;
+  private readonly settings: PrefilterSettings;
+  /** Whether some rule is not `localOnly` and needs the model for every message */
+  readonly needsModel: boolean;
+
+  constructor(rules: ModerationRule[], settings: PrefilterSettings = {}) {
+    this.enabled = settings.enabled ?? true;
+    this.settings = settings;
+    this.rulesById = new Map(rules.map((rule) => [rule.id, rule]));
+    this.compiled = rules.map((rule) => {
+      const fragments = (rule.words ?? []).map(normalizeText);
+      return {
+        rule,
+        words: (rule.words ?? []).map(normalizeWords),
+        fragments,
+        collapsedWords: fragments.map(collapseText),
+        patterns: (rule.patterns ?? []).map(
+          (pattern) => new RegExp(pattern, 'iu')
+        ),
+      };
+    });
+
+    this.needsModel = !this.enabled || rules.some((rule) => !rule.localOnly);
+  }
+
+  check(text: string): PrefilterVerdict {
+    if (!this.enabled) {
+      return { kind: 'clean' };
+    }
+
+    const normalized = normalizeText(text);
+    const hits = [
+      ...this.checkRules(text, normalized, ` ${normalizeWords(text)} `),
+      ...this.checkSpam(text),
+    ];
+    if (hits.length > 0) {
+      return hits.reduce((worst, hit) =>
+        SEVERITY_RANK[hit.rule.severity] > SEVERITY_RANK[worst.rule.severity]
+          ? hit
+          : worst
+      );
+    }
+
+    const collapsed = collapseText(normalized);
+    const suspect = this.compiled.find(
+      ({ fragments, collapsedWords }) =>
+        fragments.some((fragment) => normalized.includes(fragment)) ||
+        collapsedWords.some((word) => collapsed.includes(word))
+    );
+    return suspect
+      ? { kind: 'suspect', rule: suspect.rule }
+      : { kind: 'clean' };
+  }
+
+  /**
+   * `spacedWords` is the message's normalized words padded with a space on
+   * each side, so a whole word is always surrounded by spaces
+   */
+  private checkRules(
+    text: string,
+    normalized: string,
+    spacedWords: string
+  ): PrefilterHit[] {
+    const hits: PrefilterHit[] = [];
+
+    for (const { rule, words, patterns } of this.compiled) {
+      const word = words.find((w) => spacedWords.includes(` ${w} `));
+      if (word) {
+        hits.push({ kind: 'hit', rule, reason: `Blocked word "${word}"` });
+        continue;
+      }
+      if (patterns.some((p) => p.test(text) || p.test(normalized))) {
+        hits.push({ kind: 'hit', rule, reason: 'Blocked phrase' });
+      }
+    }
+    return hits;
+  }
+
+  private checkSpam(text: string): PrefilterHit[] {
+    const { links, caps, repeats } = this.settings;
+    const hits: PrefilterHit[] = [];
+    const hit = (ruleId: string, reason: string) => {
+      const rule = this.rulesById.get(ruleId);
+      if (rule) {
+        hits.push({ kind: 'hit', rule, reason });
+      }
+    };
+
+    if (links) {
+      const host = findLinks(text).find(
+        (h) => !isAllowedHost(h, links.allow ?? [])
+      );
+      if (host) {
+        hit(links.rule, `Link to ${host}`);
+      }
+    }
+    if (
+      caps &&
+      capsRatio(
+        text,
+        caps.minLength ?? DEFAULT_PREFILTER_SETTINGS.capsMinLength
+      ) >= (caps.ratio ?? DEFAULT_PREFILTER_SETTINGS.capsRatio)
+    ) {
+      hit(caps.rule, 'Too many capitals');
+    }
+    if (
+      repeats &&
+      longestRun(text) > (repeats.maxRun ?? DEFAULT_PREFILTER_SETTINGS.maxRun)
+    ) {
+      hit(repeats.rule, 'Repeated character spam');
+    }
+    return hits;
+  }
+}
@@ -4,30 +4,86 @@ import { createLogger } from '@/shared/logger';
 import type { TokenManager } from '@/shared/token.service';
 import { env } from '../env';
 import type { AIService } from './ai.service';
-import type { ChatMessage, Role } from './chat-listener.service';
-import { ChatbotService } from './chatbot.service';
-import type { BotConfig } from './config-manager';
+import type {
+  ChatMessage,
+  ModerationEvent,
+  Role,
+} from './chat-listener.service';
+import { ChatbotService, type ReplyTarget } from './chatbot.service';
+import type { ChatbotQueue } from './chatbot-queue';
+import type {
+  BotConfig,
+  EscalationSettings,
+  ModerationRule,
+  ModerationSettings,
+} from './config-manager';
+import {
+  looksUrgent,
+  type ModerationBatch,
+  ModerationBatcher,
+} from './moderation-batcher';
+import {
+  chooseLadderStep,
+  type LadderStep,
+  resolveEscalation,
+} from './moderation-ladder';
+import {
+  getModerationRules,
+  MAX_TIMEOUT_SECONDS,
+  type ModerationViolation,
+  SEVERITY_RANK,
+} from './moderation-policy';
+import { ModerationPrefilter, type PrefilterHit } from './moderation-prefilter';
+import type { Strike, StrikeLedger } from './strike-ledger';
+
+/** Everything one viewer was flagged for in a batch */
+interface Enforcement {
+  rule: ModerationRule;
+  reason: string;
+  /** Flagged messages, the one that broke `rule` first */
+  messages: [ChatMessage, ...ChatMessage[]];
+  source: 'model' | 'prefilter';
+}
+
+interface PendingBan {
+  user: string;
+  userId: string;
+  reason: string;
+  expiresAt: number;
+}
 
 export class ModeratorBotService extends EventEmitter<{
-  moderate: (messages: ChatMessage[]) => void;
+  moderate: (batch: ModerationBatch) => void;
+  action: (event: ModerationEvent) => void;
 }> {
   private readonly chatbot: ChatbotService;
   private readonly apiClient: ApiClient;
-  private readonly maxTimeoutDuration = 60 * 1000; // 1 minute
+  private readonly maxTimeoutDuration = MAX_TIMEOUT_SECONDS;
 
-  private readonly queueCheckInterval = 30_000 as const;
-  private queueCheckIntervalId: NodeJS.Timeout | undefined = undefined;
   private logger = createLogger('ModeratorBotService');
 
-  private modMessageQueue_: ChatMessage[] = [];
+  private readonly batcher: ModerationBatcher;
+  // Moderation calls in flight, cancelled when the bot leaves the channel
+  private readonly inFlight = new Set<AbortController>();
   private botUserId: string;
   private config: BotConfig;
+  private policy: ModerationSettings;
+  private prefilter: ModerationPrefilter;
+  private readonly ledger: StrikeLedger;
+  private readonly queue: ChatbotQueue;
+  // Bans reached on the ladder, waiting for a human mod, keyed by lowercase name
+  private readonly pendingBans = new Map<string, PendingBan>();
+  // Prefix of the confirmban/dismissban commands the ban hint names
+  private commandPrefix = '!';
 
   private constructor(
     chatbot: ChatbotService,
     apiClient: ApiClient,
     botUserId: string,
-    config: BotConfig
+    config: BotConfig,
+    policy: ModerationSettings,
+    ledger: StrikeLedger,
+    queue: ChatbotQueue
   ) {
     super();
 
@@ -35,14 +91,24 @@ export class ModeratorBotService extends EventEmitter<{
     this.apiClient = apiClient;
     this.botUserId = botUserId;
     this.config = config;
-
-    this.startQueueCheckInterval();
+    this.policy = policy;
+    this.prefilter = new ModerationPrefilter(
+      getModerationRules(policy),
+      policy.filters
+    );
+    this.ledger = ledger;
+    this.queue = queue;
+    this.batcher = new ModerationBatcher(policy.batching);
+    this.batcher.on('batch', (batch) => this.emit('moderate', batch));
   }
 
   static async create(
     tokenManager: TokenManager,
     botName: string,
-    config: BotConfig
+    config: BotConfig,
+    policy: ModerationSettings,
+    ledger: StrikeLedger,
+    queue: ChatbotQueue
   ): Promise<ModeratorBotService> {
     try {
       const chatbot = await ChatbotService.create(
@@ -61,7 +127,15 @@ export class ModeratorBotService extends EventEmitter<{
         throw new Error(`Bot user ID not found for bot ${botName}`);
       }
 
-      return new ModeratorBotService(chatbot, apiClient, botUserId, config);
+      return new ModeratorBotService(
+        chatbot,
+        apiClient,
+        botUserId,
+        config,
+        policy,
+        ledger,
+        queue
+      );
     } catch (error) {
       throw new Error(
         `Failed to create ModeratorBotService: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -75,43 +149,62 @@ export class ModeratorBotService extends EventEmitter<{
 
   leaveChannel(): void {
     this.logger.info('👮 Moderator bot leaving channel');
-    this.stopQueueCheckInterval();
+    this.batcher.clear();
+    for (const controller of this.inFlight) {
+      controller.abort();
+    }
+    this.inFlight.clear();
     this.chatbot.leaveChannel();
   }
 
-  say(message: string): void {
-    this.chatbot.say(message);
+  /**
+   * Post through the queue's rate limit and duplicate guard; resolves to
+   * false when the message was dropped or failed to post
+   */
+  say(message: string, replyTo?: ReplyTarget): Promise<boolean> {
+    return this.queue.send(this.chatbot, message, replyTo);
+  }
+
+  setCommandPrefix(prefix: string): void {
+    this.commandPrefix = prefix;
   }
 
-  updateConfig(newConfig: BotConfig): void {
+  updateConfig(newConfig: BotConfig, policy: ModerationSettings): void {
     this.config = newConfig;
+    this.policy = policy;
+    this.prefilter = new ModerationPrefilter(
+      getModerationRules(policy),
+      policy.filters
+    );
+    this.batcher.updateSettings(policy.batching);
     this.chatbot.updateConfig(newConfig);
-    this.logger.info('Updated config for moderator bot');
+    this.logger.info(
+      { rules: getModerationRules(policy).map((rule) => rule.id) },
+      'Updated config for moderator bot'
+    );
   }
 
   async timeout({
     user,
+    userId,
     duration,
     reason,
   }: {
     user: string;
+    userId?: string;
     duration: number;
     reason: string;
   }): Promise<void> {
     this.logger.info({ user, duration, reason }, 'Timing out user');
 
-    const twitchUser = await this.apiClient.users.getUserByName(user);
-
-    if (!twitchUser) {
-      throw new Error('User not found');
-    }
+    const twitchUserId = userId ?? (await this.resolveUserId(user));
 
     try {
       await this.apiClient.asUser(this.botUserId, async (userClient) => {
         const bannedUsers = await userClient.moderation.banUser(
           env.TWITCH_CHANNEL_ID,
           {
-            user: twitchUser.id,
+            user: twitchUserId,
             reason,
             duration: this.ensureMaxTimeoutDuration(duration),
           }
@@ -121,6 +214,13 @@ export class ModeratorBotService extends EventEmitter<{
 
         this.logger.info({ user: bannedUser?.displayName }, 'Banned user');
       });
+
+      this.emitAction({
+        type: 'timeout',
+        user,
+        duration: this.ensureMaxTimeoutDuration(duration),
+        reason,
+      });
     } catch (error) {
       this.logger.error(
         { err: error, user, duration, reason },
@@ -129,53 +229,129 @@ export class ModeratorBotService extends EventEmitter<{
     }
   }
 
-  canTimeoutUser(role: Role): boolean {
-    return role === 'user';
-  }
+  async ban({
+    user,
+    userId,
+    reason,
+  }: {
+    user: string;
+    userId?: string;
+    reason: string;
+  }): Promise<void> {
+    this.logger.info({ user, reason }, 'Banning user');
 
-  ensureMaxTimeoutDuration(duration: number): number {
-    return Math.min(duration, this.maxTimeoutDuration);
-  }
+    try {
+      const twitchUserId = userId ?? (await this.resolveUserId(user));
+      await this.apiClient.asUser(this.botUserId, (userClient) =>
+        userClient.moderation.banUser(env.TWITCH_CHANNEL_ID, {
+          user: twitchUserId,
+          reason,
+        })
+      );
 
-  isSelf(user: string): boolean {
-    return user === this.chatbot.botName;
+      this.emitAction({ type: 'ban', user, reason });
+    } catch (error) {
+      this.logger.error({ err: error, user, reason }, 'Error banning user');
+    }
   }
 
-  addToQueue(message: ChatMessage): void {
-    this.modMessageQueue_.push(message);
-  }
+  async deleteMessage({
+    user,
+    messageId,
+    reason,
+  }: {
+    user: string;
+    messageId: string;
+    reason: string;
+  }): Promise<void> {
+    this.logger.info({ user, messageId, reason }, 'Deleting message');
+
+    try {
+      await this.apiClient.asUser(this.botUserId, (userClient) =>
+        userClient.moderation.deleteChatMessages(
+          env.TWITCH_CHANNEL_ID,
+          messageId
+        )
+      );
 
-  get modMessageQueue(): ChatMessage[] {
-    return this.modMessageQueue;
+      this.emitAction({ type: 'delete', user, messageId, reason });
+    } catch (error) {
+      this.logger.error(
+        { err: error, user, messageId },
+        'Error deleting message'
+      );
+    }
   }
 
-  stopQueueCheckInterval(): void {
-    this.logger.info('👮 Moderator bot moderation queue stopped');
-    clearInterval(this.queueCheckIntervalId);
+  warn({
+    user,
+    messageId,
+    reason,
+  }: {
+    user: string;
+    messageId?: string;
+    reason: string;
+  }): void {
+    this.logger.info({ user, reason }, 'Warning user');
+    this.say(`@${user} ${reason}`, messageId ? { user, messageId } : { user });
+    this.emitAction({ type: 'warn', user, reason });
   }
 
-  private startQueueCheckInterval(): void {
-    this.queueCheckIntervalId = setInterval(() => {
-      this.processQueue();
-    }, this.queueCheckInterval);
+  /**
+   * Ban a viewer the ladder flagged, if a mod confirms before it expires
+   */
+  async confirmBan(user: string): Promise<boolean> {
+    const key = user.replace('@', '').toLowerCase();
+    const pending = this.pendingBans.get(key);
+    this.pendingBans.delete(key);
+
+    if (!pending || pending.expiresAt <= Date.now()) {
+      return false;
+    }
+
+    await this.ban(pending);
+    return true;
   }
 
-  private clearQueue(): void {
-    this.modMessageQueue_ = [];
+  dismissBan(user: string): boolean {
+    const key = user.replace('@', '').toLowerCase();
+    const pending = this.pendingBans.get(key);
+    this.pendingBans.delete(key);
+
+    if (pending) {
+      this.logger.info({ user: pending.user }, 'Pending ban dismissed');
+    }
+    return pending !== undefined && pending.expiresAt > Date.now();
   }
 
-  private processQueue(): void {
-    const messages = this.modMessageQueue_;
+  private emitAction(event: Omit<ModerationEvent, 'timestamp' | 'moderator'>) {
+    this.emit('action', {
+      ...event,
+      timestamp: Date.now(),
+      moderator: this.config.name,
+    });
+  }
 
-    this.logger.info({ messages }, 'Processing queue');
+  private async resolveUserId(user: string): Promise<string> {
+    const twitchUser = await this.apiClient.users.getUserByName(user);
 
-    if (messages.length === 0) {
-      return;
+    if (!twitchUser) {
+      throw new Error('User not found');
     }
 
-    this.emit('moderate', messages);
+    return twitchUser.id;
+  }
+
+  canTimeoutUser(role: Role): boolean {
+    return role === 'user';
+  }
+
+  ensureMaxTimeoutDuration(duration: number): number {
+    return Math.min(duration, this.maxTimeoutDuration);
+  }
 
-    this.clearQueue();
+  isSelf(user: string): boolean {
+    return user === this.chatbot.botName;
   }
 
   async setupAndConnect(ai: AIService): Promise<void> {
@@ -183,38 +359,264 @@ export class ModeratorBotService extends EventEmitter<{
 
     this.say(this.config.introMessage ?? '👋');
 
-    this.on('moderate', async (messages) => {
-      const moderationResults = await ai.generateModerationResponse({
+    // Reconnecting after the stream goes offline must not double up
+    this.removeAllListeners('moderate');
+    this.on('moderate', (batch) => this.moderate(ai, batch));
+  }
+
+  private async moderate(
+    ai: AIService,
+    { messages, context }: ModerationBatch
+  ) {
+    const rules = getModerationRules(this.policy);
+    const strikes = this.getActiveStrikes(messages.map((m) => m.userId));
+    const controller = new AbortController();
+    this.inFlight.add(controller);
+
+    const moderationResults = await ai
+      .generateModerationResponse({
         moderatorBotName: this.config.name,
         moderatorConfig: this.config,
         messages,
-      });
+        context,
+        rules,
+        ...(this.policy.guidelines && { guidelines: this.policy.guidelines }),
+        strikes,
+        abortSignal: controller.signal,
+      })
+      .finally(() => this.inFlight.delete(controller));
+
+    if (controller.signal.aborted || !moderationResults) {
+      return;
+    }
+
+    const byViewer = this.groupByViewer(
+      moderationResults.violations,
+      messages,
+      rules
+    );
+    await Promise.all(
+      byViewer.map((enforcement) =>
+        this.enforce(
+          enforcement,
+          strikes.get(enforcement.messages[0].userId) ?? []
+        )
+      )
+    );
+  }
+
+  /** Empty when the ledger can't be read, so moderation carries on */
+  private getActiveStrikes(userIds: string[]): Map<string, Strike[]> {
+    try {
+      return this.ledger.getActiveStrikes(
+        [...new Set(userIds)],
+        resolveEscalation(this.policy.escalation).strikeDecayDays
+      );
+    } catch (error) {
+      this.logger.error({ err: error }, 'Failed to read strikes');
+      return new Map();
+    }
+  }
+
+  private recordStrike(chatMessage: ChatMessage, strike: Strike): void {
+    try {
+      this.ledger.addStrike(chatMessage, strike, chatMessage.message);
+    } catch (error) {
+      // A ledger failure must not stop the action or chat handling
+      this.logger.error(
+        { err: error, user: chatMessage.user, rule: strike.rule },
+        'Failed to record strike'
+      );
+    }
+  }
 
-      if (!moderationResults || moderationResults.violations.length === 0) {
-        return;
+  /**
+   * One enforcement per viewer, under the most severe rule they broke, with
+   * every message the model flagged. Numbers outside the batch are dropped.
+   */
+  private groupByViewer(
+    violations: ModerationViolation[],
+    messages: ChatMessage[],
+    rules: ModerationRule[]
+  ): Enforcement[] {
+    const rulesById = new Map(rules.map((rule) => [rule.id, rule]));
+    const byViewer = new Map<string, Enforcement>();
+
+    for (const violation of violations) {
+      const rule = rulesById.get(violation.rule);
+      const chatMessage = messages[violation.message];
+      if (!(rule && chatMessage)) {
+        this.logger.warn({ violation }, 'Violation matches no message');
+        continue;
       }
 
-      await Promise.all(
-        moderationResults.violations.map((result) => {
-          const chatMessage = messages.find((m) => m.user === result.user);
+      const current = byViewer.get(chatMessage.userId);
+      const others = (current?.messages ?? []).filter((m) => m !== chatMessage);
+      if (
+        !current ||
+        SEVERITY_RANK[rule.severity] > SEVERITY_RANK[current.rule.severity]
+      ) {
+        byViewer.set(chatMessage.userId, {
+          rule,
+          reason: violation.reason,
+          messages: [chatMessage, ...others],
+          source: 'model',
+        });
+      } else if (!current.messages.includes(chatMessage)) {
+        current.messages.push(chatMessage);
+      }
+    }
 
-          if (!chatMessage) {
-            return Promise.resolve();
-          }
+    return [...byViewer.values()];
+  }
 
-          return this.timeout({
-            user: result.user,
-            duration: result.duration,
-            reason: result.reason,
-          });
-        })
-      );
+  /**
+   * Act on a violation and record it as a strike. With escalation on, the
+   * ladder picks the action from the viewer's active strikes.
+   */
+  private enforce(
+    { rule, reason, messages, source }: Enforcement,
+    activeStrikes: Strike[]
+  ): Promise<void> {
+    const [chatMessage] = messages;
+    const escalation = resolveEscalation(this.policy.escalation);
+    const step: LadderStep = escalation.enabled
+      ? chooseLadderStep(rule, activeStrikes.length, escalation.timeouts)
+      : {
+          action: rule.action,
+          ...(rule.duration && { duration: rule.duration }),
+        };
+    const target = {
+      user: chatMessage.user,
+      reason: `${reason} [${rule.id}]`,
+    };
+
+    if (this.policy.shadow || rule.shadow) {
+      this.recordShadow(step, rule, chatMessage, { source, reason });
+      return Promise.resolve();
+    }
+
+    this.recordStrike(chatMessage, {
+      rule: rule.id,
+      severity: rule.severity,
+      action: step.action,
+      ...(step.duration && { duration: step.duration }),
+      reason,
+      timestamp: Date.now(),
     });
+
+    switch (step.action) {
+      case 'warn':
+        this.warn({ ...target, messageId: chatMessage.id });
+        return Promise.resolve();
+      case 'delete':
+        return this.deleteMessages(target, messages);
+      case 'ban':
+        return escalation.enabled
+          ? this.requestBan(
+              { ...target, userId: chatMessage.userId },
+              escalation
+            )
+          : this.ban({ ...target, userId: chatMessage.userId });
+      default:
+        return this.timeout({
+          ...target,
+          userId: chatMessage.userId,
+          duration: step.duration ?? 0,
+        });
+    }
+  }
+
+  private async deleteMessages(
+    target: { user: string; reason: string },
+    messages: ChatMessage[]
+  ): Promise<void> {
+    await Promise.all(
+      messages.map((m) => this.deleteMessage({ ...target, messageId: m.id }))
+    );
   }
 
+  /**
+   * Log what a shadowed rule would have done, without acting or adding a
+   * strike
+   */
+  private recordShadow(
+    step: LadderStep,
+    rule: ModerationRule,
+    chatMessage: ChatMessage,
+    verdict: { source: 'model' | 'prefilter'; reason: string }
+  ): void {
+    this.logger.info(
+      { user: chatMessage.user, rule: rule.id, ...step, verdict },
+      'Shadow decision'
+    );
+    this.emitAction({
+      type: step.action,
+      user: chatMessage.user,
+      ...(step.duration && { duration: step.duration }),
+      messageId: chatMessage.id,
+      reason: `${verdict.reason} [${rule.id}]`,
+      rule: rule.id,
+      shadow: true,
+      message: chatMessage.message,
+      verdict,
+    });
+  }
+
+  /**
+   * Hold a ladder ban for a human mod, timing the viewer out with the longest
+   * configured timeout in the meantime
+   */
+  private async requestBan(
+    target: { user: string; userId: string; reason: string },
+    escalation: Required<EscalationSettings>
+  ): Promise<void> {
+    this.pendingBans.set(target.user.toLowerCase(), {
+      ...target,
+      expiresAt: Date.now() + escalation.banConfirmMinutes * 60_000,
+    });
+    this.logger.info(target, 'Ban awaiting confirmation');
+    this.say(
+      `⚠️ ${target.user} reached a ban (${target.reason}). A mod can confirm with ${this.commandPrefix}confirmban ${target.user} or dismiss with ${this.commandPrefix}dismissban ${target.user} within ${escalation.banConfirmMinutes} minutes.`
+    );
+
+    const longestTimeout = Math.max(0, ...escalation.timeouts);
+    if (longestTimeout > 0) {
+      await this.timeout({ ...target, duration: longestTimeout });
+    }
+  }
+
+  /**
+   * Act on clear pre-filter hits straight away and queue the rest for the
+   * model, skipping clean messages when every rule has a local check
+   */
   handleMessage(msg: ChatMessage): void {
-    if (this.canTimeoutUser(msg.role)) {
-      this.addToQueue(msg);
+    this.batcher.observe(msg);
+    if (!this.canTimeoutUser(msg.role)) {
+      return;
     }
+
+    const verdict = this.prefilter.check(msg.message);
+    if (verdict.kind === 'hit') {
+      this.enforceHit(verdict, msg);
+    } else if (verdict.kind === 'suspect' || this.prefilter.needsModel) {
+      this.batcher.add(msg, looksUrgent(msg, verdict));
+    }
+  }
+
+  private enforceHit({ rule, reason }: PrefilterHit, msg: ChatMessage): void {
+    this.logger.info(
+      { user: msg.user, rule: rule.id, reason },
+      'Pre-filter hit'
+    );
+    this.enforce(
+      { rule, reason, messages: [msg], source: 'prefilter' },
+      this.getActiveStrikes([msg.userId]).get(msg.userId) ?? []
+    ).catch((error) => {
+      this.logger.error(
+        { err: error, user: msg.user, rule: rule.id },
+        'Error enforcing pre-filter hit'
+      );
+    });
   }
 }
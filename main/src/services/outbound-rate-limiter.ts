@@ -0,0 +1,119 @@
+import { createLogger } from '@/shared/logger';
+
+// Twitch allows 20 messages per 30s per account, 100 when the account is a
+// mod, VIP or the broadcaster. Stay a little under both to leave headroom
+// for intro messages and anything sent outside the queue.
+const WINDOW_MS = 30_000;
+const REGULAR_LIMIT = 18;
+const ELEVATED_LIMIT = 90;
+
+// Twitch silently drops a message identical to one sent in the last 30s
+const DUPLICATE_WINDOW_MS = 30_000;
+// Invisible tag character that makes an otherwise identical message unique
+const VARIATION_SUFFIX = ' \u{E0000}';
+
+export type DuplicateStrategy = 'vary' | 'skip';
+
+interface SentMessage {
+  text: string;
+  at: number;
+}
+
+/**
+ * Per-account outbound scheduler that keeps each bot under Twitch's chat
+ * limits, deferring messages that would be rejected and dropping them if
+ * the wait gets too long.
+ */
+export class OutboundRateLimiter {
+  private readonly sent = new Map<string, SentMessage[]>();
+  private readonly maxDeferMs: number;
+  private readonly duplicateStrategy: DuplicateStrategy;
+  private readonly logger = createLogger('OutboundRateLimiter');
+
+  constructor(
+    maxDeferMs = 10_000,
+    duplicateStrategy: DuplicateStrategy = 'vary'
+  ) {
+    this.maxDeferMs = maxDeferMs;
+    this.duplicateStrategy = duplicateStrategy;
+  }
+
+  /**
+   * Wait until `botName` may send `text`. Resolves with the text to send,
+   * which may carry a small variation, or null if the message was dropped.
+   */
+  async acquire(
+    botName: string,
+    text: string,
+    isElevated: boolean
+  ): Promise<string | null> {
+    const outgoing = this.avoidDuplicate(botName, text);
+    if (outgoing === null) {
+      return null;
+    }
+
+    const limit = isElevated ? ELEVATED_LIMIT : REGULAR_LIMIT;
+    const history = this.getHistory(botName, Date.now());
+
+    // Each bot's queue lane sends one message at a time, so once the entry
+    // that frees up a slot has aged out the send is safe
+    if (history.length >= limit) {
+      const freesSlotAt = history.at(-limit)?.at ?? Date.now();
+      const wait = freesSlotAt + WINDOW_MS - Date.now() + 50;
+
+      if (wait > this.maxDeferMs) {
+        this.logger.warn(
+          { botName, limit, isElevated, text },
+          'Dropped message, Twitch rate limit would be exceeded'
+        );
+        return null;
+      }
+
+      this.logger.info(
+        { botName, waitMs: wait, limit },
+        'Deferring message for Twitch rate limit'
+      );
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+
+    this.getHistory(botName, Date.now()).push({
+      text: outgoing,
+      at: Date.now(),
+    });
+    return outgoing;
+  }
+
+  private avoidDuplicate(botName: string, text: string): string | null {
+    const history = this.getHistory(botName, Date.now());
+    const isRecent = (candidate: string) =>
+      history.some(
+        (entry) =>
+          entry.text === candidate &&
+          Date.now() - entry.at < DUPLICATE_WINDOW_MS
+      );
+
+    if (!isRecent(text)) {
+      return text;
+    }
+
+    if (this.duplicateStrategy === 'vary') {
+      const varied = `${text}${VARIATION_SUFFIX}`;
+      if (!isRecent(varied)) {
+        this.logger.info({ botName, text }, 'Varied duplicate message');
+        return varied;
+      }
+    }
+
+    this.logger.info({ botName, text }, 'Skipped duplicate message');
+    return null;
+  }
+
+  private getHistory(botName: string, now: number): SentMessage[] {
+    const cutoff = now - Math.max(WINDOW_MS, DUPLICATE_WINDOW_MS);
+    const history = (this.sent.get(botName) ?? []).filter(
+      (entry) => entry.at > cutoff
+    );
+    this.sent.set(botName, history);
+    return history;
+  }
+}
@@ -0,0 +1,110 @@
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { createOpenRouter } from '@openrouter/ai-sdk-provider';
+import type { LanguageModel } from 'ai';
+import { createLogger } from '@/shared/logger';
+import { env } from '../env';
+import type {
+  ConfigManager,
+  ProviderConfig,
+  ProviderType,
+} from './config-manager';
+
+export const DEFAULT_PROVIDER = 'openrouter';
+
+const DEFAULT_BASE_URLS: Partial<Record<ProviderType, string>> = {
+  ollama: 'http://localhost:11434/v1',
+  'llama.cpp': 'http://localhost:8080/v1',
+};
+
+type ModelFactory = (modelId: string) => LanguageModel;
+
+/**
+ * Resolves `[providers.*]` tables from bots.toml to AI SDK models. The
+ * openrouter provider is always available using `OPENROUTER_KEY`. Clients
+ * are cached and rebuilt when their config changes on reload.
+ */
+export class ProviderRegistry {
+  private readonly configManager: ConfigManager;
+  private readonly factories = new Map<
+    string,
+    { signature: string; create: ModelFactory }
+  >();
+  private logger = createLogger('ProviderRegistry');
+
+  constructor(configManager: ConfigManager) {
+    this.configManager = configManager;
+  }
+
+  getModel(providerName: string | undefined, modelId: string): LanguageModel {
+    return this.getFactory(providerName ?? DEFAULT_PROVIDER)(modelId);
+  }
+
+  private getFactory(name: string): ModelFactory {
+    const config = this.resolveConfig(name);
+    const signature = JSON.stringify(config);
+    const cached = this.factories.get(name);
+
+    if (cached?.signature === signature) {
+      return cached.create;
+    }
+
+    const create = this.createFactory(name, config);
+    this.factories.set(name, { signature, create });
+    this.logger.info(
+      { provider: name, type: config.type, baseURL: config.baseURL },
+      'Provider client created'
+    );
+    return create;
+  }
+
+  private resolveConfig(name: string): ProviderConfig {
+    const config = this.configManager.getProviderConfig(name);
+    if (config) {
+      return config;
+    }
+    if (name === DEFAULT_PROVIDER) {
+      return { type: 'openrouter' };
+    }
+    throw new Error(`Unknown AI provider "${name}"`);
+  }
+
+  private createFactory(name: string, config: ProviderConfig): ModelFactory {
+    const apiKey = this.resolveApiKey(config);
+
+    if (config.type === 'openrouter') {
+      if (!apiKey) {
+        throw new Error(`No API key configured for provider "${name}"`);
+      }
+
+      const openrouter = createOpenRouter({
+        apiKey,
+        ...(config.baseURL && { baseURL: config.baseURL }),
+        ...(config.headers && { headers: config.headers }),
+      });
+      return (modelId) => openrouter.chat(modelId);
+    }
+
+    const baseURL = config.baseURL ?? DEFAULT_BASE_URLS[config.type];
+    if (!baseURL) {
+      throw new Error(`Provider "${name}" needs a baseURL`);
+    }
+
+    const provider = createOpenAICompatible({
+      name,
+      baseURL,
+      ...(apiKey && { apiKey }),
+      ...(config.headers && { headers: config.headers }),
+    });
+    return (modelId) => provider.chatModel(modelId);
+  }
+
+  private resolveApiKey(config: ProviderConfig): string | undefined {
+    if (config.apiKey) {
+      return config.apiKey;
+    }
+    if (config.apiKeyEnv) {
+      return process.env[config.apiKeyEnv];
+    }
+    return config.type === 'openrouter' ? env.OPENROUTER_KEY : undefined;
+  }
+}
@@ -0,0 +1,194 @@
+import type { OutputSettings } from './config-manager';
+
+export const TWITCH_MAX_MESSAGE_LENGTH = 500;
+
+export const DEFAULT_OUTPUT_SETTINGS = {
+  maxChars: TWITCH_MAX_MESSAGE_LENGTH,
+  allowMultiMessage: false,
+  maxMessages: 3,
+  stripActions: true,
+  stripQuotes: true,
+} as const satisfies Required<OutputSettings>;
+
+const REASONING_BLOCK_PATTERN =
+  /<(think|thinking|reasoning)>[\s\S]*?(<\/\1>|$)/gi;
+const DANGLING_REASONING_END_PATTERN =
+  /^[\s\S]*<\/(think|thinking|reasoning)>/i;
+const SPEAKER_PREFIX_PATTERN = /^\s*\[?@?([\w-]{2,25})\]?\s*:\s*/;
+const ACTION_TAG_PATTERN = /\*[^*\n]+\*/g;
+const WRAPPING_QUOTES_PATTERN = /^["“'](.*)["”']$/s;
+const SENTENCE_PATTERN = /[^.!?…]+(?:[.!?…]+|$)/g;
+const WHITESPACE_PATTERN = /\s+/g;
+const ELLIPSIS = '…';
+
+interface PostProcessOptions {
+  botName: string;
+  /** Chatters and bots the model might impersonate */
+  knownUsers: string[];
+  settings?: OutputSettings;
+}
+
+/**
+ * Clean up a raw model response so it can be posted to chat. Returns the
+ * messages to send in order, or an empty array if nothing usable is left.
+ */
+export function postProcessResponse(
+  response: string,
+  { botName, knownUsers, settings = {} }: PostProcessOptions
+): string[] {
+  const stripActions =
+    settings.stripActions ?? DEFAULT_OUTPUT_SETTINGS.stripActions;
+  const stripQuotes =
+    settings.stripQuotes ?? DEFAULT_OUTPUT_SETTINGS.stripQuotes;
+
+  let text = stripReasoning(response);
+  text = stripSpeakerLines(text, botName, knownUsers);
+
+  if (stripActions) {
+    text = text.replace(ACTION_TAG_PATTERN, ' ');
+  }
+
+  text = text.replace(WHITESPACE_PATTERN, ' ').trim();
+
+  if (stripQuotes) {
+    text = unwrapQuotes(text);
+  }
+
+  if (!text) {
+    return [];
+  }
+
+  return limitLength(text, settings);
+}
+
+function stripReasoning(text: string): string {
+  return text
+    .replace(REASONING_BLOCK_PATTERN, '')
+    .replace(DANGLING_REASONING_END_PATTERN, '');
+}
+
+/**
+ * Drop lines where the model speaks as someone else and strip prefixes
+ * where it labels its own message
+ */
+function stripSpeakerLines(
+  text: string,
+  botName: string,
+  knownUsers: string[]
+): string {
+  const lowerBotName = botName.toLowerCase();
+  const otherUsers = new Set(
+    knownUsers
+      .map((user) => user.toLowerCase())
+      .filter((user) => user !== lowerBotName)
+  );
+
+  const lines: string[] = [];
+  for (const line of text.split('\n')) {
+    const speaker = SPEAKER_PREFIX_PATTERN.exec(line)?.[1]?.toLowerCase();
+
+    if (speaker === lowerBotName) {
+      lines.push(line.replace(SPEAKER_PREFIX_PATTERN, ''));
+    } else if (!(speaker && otherUsers.has(speaker))) {
+      lines.push(line);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function unwrapQuotes(text: string): string {
+  let unwrapped = text;
+  let match = WRAPPING_QUOTES_PATTERN.exec(unwrapped);
+
+  while (match?.[1] !== undefined) {
+    unwrapped = match[1].trim();
+    match = WRAPPING_QUOTES_PATTERN.exec(unwrapped);
+  }
+
+  return unwrapped;
+}
+
+function limitLength(text: string, settings: OutputSettings): string[] {
+  const maxChars = Math.min(
+    settings.maxChars ?? DEFAULT_OUTPUT_SETTINGS.maxChars,
+    TWITCH_MAX_MESSAGE_LENGTH
+  );
+
+  if (text.length <= maxChars) {
+    return [text];
+  }
+
+  const allowMultiMessage =
+    settings.allowMultiMessage ?? DEFAULT_OUTPUT_SETTINGS.allowMultiMessage;
+  if (!allowMultiMessage) {
+    return [truncate(text, maxChars)];
+  }
+
+  const maxMessages =
+    settings.maxMessages ?? DEFAULT_OUTPUT_SETTINGS.maxMessages;
+  const chunks = splitSentences(text, maxChars);
+
+  if (chunks.length <= maxMessages) {
+    return chunks;
+  }
+
+  const kept = chunks.slice(0, maxMessages);
+  const last = kept.pop() ?? '';
+  return [...kept, truncate(`${last} ${ELLIPSIS}`, maxChars)];
+}
+
+/**
+ * Cut at the last sentence boundary that fits, or the last word boundary
+ * if a single sentence is already too long
+ */
+function truncate(text: string, maxChars: number): string {
+  if (text.length <= maxChars) {
+    return text;
+  }
+
+  let result = '';
+  for (const sentence of text.match(SENTENCE_PATTERN) ?? []) {
+    const candidate = `${result}${sentence}`;
+    if (candidate.trim().length > maxChars) {
+      break;
+    }
+    result = candidate;
+  }
+
+  if (result.trim()) {
+    return result.trim();
+  }
+
+  const cut = text.slice(0, maxChars - ELLIPSIS.length);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).trim()}${ELLIPSIS}`;
+}
+
+function splitSentences(text: string, maxChars: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const sentence of text.match(SENTENCE_PATTERN) ?? [text]) {
+    const candidate = `${current}${sentence}`;
+
+    if (candidate.trim().length <= maxChars) {
+      current = candidate;
+      continue;
+    }
+
+    if (current.trim()) {
+      chunks.push(current.trim());
+    }
+    current =
+      sentence.trim().length > maxChars
+        ? truncate(sentence.trim(), maxChars)
+        : sentence;
+  }
+
+  if (current.trim()) {
+    chunks.push(current.trim());
+  }
+
+  return chunks;
+}
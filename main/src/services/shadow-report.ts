@@ -0,0 +1,103 @@
+import type { ModerationEvent } from './chat-listener.service';
+
+/** How far apart a shadow decision and a human action can be and still match */
+export const DEFAULT_SHADOW_MATCH_MINUTES = 5;
+
+// Our bots' live actions also show up in chat, without a moderator name
+const SELF_ACTION_WINDOW_MS = 10_000;
+
+export interface ShadowDecision {
+  decision: ModerationEvent;
+  /** Closest human action against the same viewer, if there was one */
+  humanAction?: ModerationEvent;
+}
+
+export interface ShadowRuleStats {
+  rule: string;
+  decisions: number;
+  /** Decisions a human mod also acted on */
+  matched: number;
+}
+
+export interface ShadowReport {
+  rules: ShadowRuleStats[];
+  decisions: ShadowDecision[];
+  /** Human actions with no shadow decision against that viewer */
+  missed: ModerationEvent[];
+}
+
+function isSameAction(a: ModerationEvent, b: ModerationEvent): boolean {
+  return (
+    a.type === b.type &&
+    a.user.toLowerCase() === b.user.toLowerCase() &&
+    Math.abs(a.timestamp - b.timestamp) <= SELF_ACTION_WINDOW_MS
+  );
+}
+
+/**
+ * Timeouts, bans and deletions seen in chat that none of our bots made
+ */
+export function findHumanActions(events: ModerationEvent[]): ModerationEvent[] {
+  const botActions = events.filter((e) => e.moderator && !e.shadow);
+
+  return events.filter(
+    (event) =>
+      !(
+        event.moderator ||
+        botActions.some((botAction) => isSameAction(botAction, event))
+      )
+  );
+}
+
+/**
+ * Compare shadow decisions with what human mods actually did to the same
+ * viewers within `windowMinutes`
+ */
+export function buildShadowReport(
+  events: ModerationEvent[],
+  windowMinutes = DEFAULT_SHADOW_MATCH_MINUTES
+): ShadowReport {
+  const windowMs = windowMinutes * 60_000;
+  const humanActions = findHumanActions(events);
+  const closestHumanAction = (decision: ModerationEvent) =>
+    humanActions
+      .filter(
+        (action) =>
+          action.user.toLowerCase() === decision.user.toLowerCase() &&
+          Math.abs(action.timestamp - decision.timestamp) <= windowMs
+      )
+      .sort(
+        (a, b) =>
+          Math.abs(a.timestamp - decision.timestamp) -
+          Math.abs(b.timestamp - decision.timestamp)
+      )[0];
+
+  const decisions: ShadowDecision[] = events
+    .filter((event) => event.shadow)
+    .map((decision) => {
+      const humanAction = closestHumanAction(decision);
+      return humanAction ? { decision, humanAction } : { decision };
+    });
+
+  const rules = new Map<string, ShadowRuleStats>();
+  for (const { decision, humanAction } of decisions) {
+    const rule = decision.rule ?? 'unknown';
+    const stats = rules.get(rule) ?? { rule, decisions: 0, matched: 0 };
+    stats.decisions++;
+    if (humanAction) {
+      stats.matched++;
+    }
+    rules.set(rule, stats);
+  }
+
+  const missed = humanActions.filter(
+    (action) =>
+      !decisions.some(
+        ({ decision }) =>
+          decision.user.toLowerCase() === action.user.toLowerCase() &&
+          Math.abs(action.timestamp - decision.timestamp) <= windowMs
+      )
+  );
+
+  return { rules: [...rules.values()], decisions, missed };
+}
@@ -5,7 +5,8 @@ import { createLogger } from '@/shared/logger';
 import type { TokenManager } from '@/shared/token.service';
 
 export class StreamService extends EventEmitter<{
-  'stream:online': () => void;
+  /** `streamId` is Twitch's ID for this broadcast, stable across restarts */
+  'stream:online': (streamId: string) => void;
   'stream:offline': () => void;
 }> {
   private readonly apiClient: ApiClient;
@@ -47,9 +48,9 @@ export class StreamService extends EventEmitter<{
       eventSubListener
     );
 
-    eventSubListener.onStreamOnline(channelUserId, () => {
+    eventSubListener.onStreamOnline(channelUserId, (event) => {
       service.logger.info('🟢 Stream is online! Connecting bots...');
-      service.emit('stream:online');
+      service.emit('stream:online', event.id);
     });
 
     eventSubListener.onStreamOffline(channelUserId, () => {
@@ -59,34 +60,42 @@ export class StreamService extends EventEmitter<{
 
     eventSubListener.start();
 
-    // Check if stream is already online
-    const isOnline = await service.isStreamOnline();
-    if (isOnline) {
-      service.logger.info('🟢 Stream is already online, connecting bots...');
-      service.emit('stream:online');
+    return service;
+  }
+
+  /**
+   * Emit `stream:online` if the stream is already live. Call after
+   * subscribing so listeners see it.
+   */
+  async checkAlreadyOnline(): Promise<void> {
+    const streamId = await this.getCurrentStreamId();
+    if (streamId) {
+      this.logger.info('🟢 Stream is already online, connecting bots...');
+      this.emit('stream:online', streamId);
     } else {
-      service.logger.info(
+      this.logger.info(
         '⏸️  Stream is offline, waiting for stream to go online...'
       );
     }
-
-    return service;
   }
 
   async isStreamOnline(): Promise<boolean> {
+    return (await this.getCurrentStreamId()) !== null;
+  }
+
+  /**
+   * ID of the live broadcast, or null when the stream is offline
+   */
+  async getCurrentStreamId(): Promise<string | null> {
     try {
       const stream = await this.apiClient.streams.getStreamByUserId(
         this.channelUserId
       );
 
-      if (stream) {
-        return true;
-      }
-
-      return false;
+      return stream?.id ?? null;
     } catch (error) {
       this.logger.error({ err: error }, '❌ Error checking stream status');
-      return false;
+      return null;
     }
   }
 
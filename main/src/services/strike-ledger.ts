@@ -0,0 +1,127 @@
+import { Database } from 'bun:sqlite';
+import { existsSync, mkdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { env } from '../env';
+import type { ModerationAction, ModerationSeverity } from './config-manager';
+import type { Viewer } from './viewer-memory-store';
+
+export interface Strike {
+  rule: string;
+  severity: ModerationSeverity;
+  /** Action the moderator took for it */
+  action: ModerationAction;
+  /** Timeout length in seconds */
+  duration?: number;
+  reason: string;
+  timestamp: number;
+}
+
+interface StrikeRow {
+  viewer_id: string;
+  rule: string;
+  severity: ModerationSeverity;
+  action: ModerationAction;
+  duration: number | null;
+  reason: string;
+  created_at: number;
+}
+
+export function defaultStrikeDbPath(): string {
+  return join(dirname(env.TOKEN_DB_PATH), 'strikes.db');
+}
+
+/**
+ * Every moderation action taken against a viewer, keyed by Twitch user ID.
+ * Strikes are kept as a history; only those newer than the decay window
+ * count towards escalation.
+ */
+export class StrikeLedger {
+  private db: Database;
+
+  constructor(dbPath: string = env.STRIKE_DB_PATH ?? defaultStrikeDbPath()) {
+    const dir = dirname(dbPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.initializeSchema();
+  }
+
+  private initializeSchema() {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS strikes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        viewer_id TEXT NOT NULL,
+        viewer_name TEXT NOT NULL,
+        rule TEXT NOT NULL,
+        severity TEXT NOT NULL,
+        action TEXT NOT NULL,
+        duration INTEGER,
+        reason TEXT NOT NULL,
+        message TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_strikes_viewer ON strikes(viewer_id, created_at);
+    `);
+  }
+
+  addStrike(viewer: Viewer, strike: Strike, message: string): void {
+    this.db
+      .prepare(
+        `INSERT INTO strikes (viewer_id, viewer_name, rule, severity, action, duration, reason, message, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        viewer.userId,
+        viewer.user.toLowerCase(),
+        strike.rule,
+        strike.severity,
+        strike.action,
+        strike.duration ?? null,
+        strike.reason,
+        message,
+        strike.timestamp
+      );
+  }
+
+  /** Strikes within the decay window per viewer ID, oldest first */
+  getActiveStrikes(
+    userIds: string[],
+    decayDays: number
+  ): Map<string, Strike[]> {
+    const strikes = new Map<string, Strike[]>();
+    if (userIds.length === 0) {
+      return strikes;
+    }
+
+    const placeholders = userIds.map(() => '?').join(', ');
+    const rows = this.db
+      .query(
+        `SELECT * FROM strikes
+         WHERE viewer_id IN (${placeholders}) AND created_at >= ?
+         ORDER BY created_at`
+      )
+      .all(...userIds, Date.now() - decayDays * 86_400_000) as StrikeRow[];
+
+    for (const row of rows) {
+      const list = strikes.get(row.viewer_id) ?? [];
+      list.push({
+        rule: row.rule,
+        severity: row.severity,
+        action: row.action,
+        ...(row.duration !== null && { duration: row.duration }),
+        reason: row.reason,
+        timestamp: row.created_at,
+      });
+      strikes.set(row.viewer_id, list);
+    }
+    return strikes;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,195 @@
+import { createLogger } from '@/shared/logger';
+import type { TriggerPolicy } from './config-manager';
+
+export const DEFAULT_REPLY_CHANCE = 0.25;
+
+export type TriggerType = 'mention' | 'keyword' | 'random';
+
+const ONE_MINUTE = 60_000;
+const TIME_OF_DAY_PATTERN = /^(\d{1,2}):(\d{2})$/;
+
+/**
+ * Tracks per-bot response history and evaluates the trigger policy
+ * declared in each bot's `[bots.triggers]` section.
+ */
+export class TriggerPolicyEvaluator {
+  private readonly responseTimes = new Map<string, number[]>();
+  private readonly patternCache = new Map<string, RegExp | null>();
+  // Warned about once, then quiet hours are skipped for them
+  private readonly invalidTimezones = new Set<string>();
+  private readonly logger = createLogger('TriggerPolicyEvaluator');
+
+  /**
+   * Hard cap that applies to every response, including direct mentions
+   */
+  isOverResponseCap(
+    botName: string,
+    policy: TriggerPolicy,
+    now = Date.now()
+  ): boolean {
+    if (policy.maxResponsesPerMinute === undefined) {
+      return false;
+    }
+
+    const recent = this.getRecentResponses(botName, now);
+    return recent.length >= policy.maxResponsesPerMinute;
+  }
+
+  /**
+   * Whether the bot may speak without being mentioned (keywords or random)
+   */
+  canInterject(
+    botName: string,
+    policy: TriggerPolicy,
+    now = Date.now()
+  ): boolean {
+    if (this.isOnCooldown(botName, policy, now)) {
+      return false;
+    }
+    return !this.isQuietHours(policy, new Date(now));
+  }
+
+  matchesTrigger(policy: TriggerPolicy, message: string): boolean {
+    const lowerMessage = message.toLowerCase();
+
+    const keywordHit = (policy.keywords ?? []).some((keyword) =>
+      lowerMessage.includes(keyword.toLowerCase())
+    );
+    if (keywordHit) {
+      return true;
+    }
+
+    return (policy.patterns ?? []).some((pattern) =>
+      this.compilePattern(pattern)?.test(message)
+    );
+  }
+
+  rollReplyChance(policy: TriggerPolicy): boolean {
+    return Math.random() < (policy.replyChance ?? DEFAULT_REPLY_CHANCE);
+  }
+
+  recordResponse(botName: string, now = Date.now()): void {
+    const recent = this.getRecentResponses(botName, now);
+    recent.push(now);
+    this.responseTimes.set(botName, recent);
+  }
+
+  reset(): void {
+    this.responseTimes.clear();
+    this.patternCache.clear();
+  }
+
+  private isOnCooldown(
+    botName: string,
+    policy: TriggerPolicy,
+    now: number
+  ): boolean {
+    if (!policy.cooldownSeconds) {
+      return false;
+    }
+
+    const lastResponse = this.responseTimes.get(botName)?.at(-1);
+    if (lastResponse === undefined) {
+      return false;
+    }
+
+    return now - lastResponse < policy.cooldownSeconds * 1000;
+  }
+
+  private isQuietHours(policy: TriggerPolicy, date: Date): boolean {
+    if (!policy.quietHours) {
+      return false;
+    }
+
+    const start = this.parseTimeOfDay(policy.quietHours.start);
+    const end = this.parseTimeOfDay(policy.quietHours.end);
+    if (start === null || end === null) {
+      return false;
+    }
+
+    const current = this.getMinuteOfDay(date, policy.quietHours.timezone);
+    if (current === null) {
+      return false;
+    }
+
+    // Windows like 23:00-07:00 wrap past midnight
+    if (start <= end) {
+      return current >= start && current < end;
+    }
+    return current >= start || current < end;
+  }
+
+  private getRecentResponses(botName: string, now: number): number[] {
+    const recent = (this.responseTimes.get(botName) ?? []).filter(
+      (timestamp) => now - timestamp < ONE_MINUTE
+    );
+
+    // Keep the latest entry around for cooldowns longer than a minute
+    const last = this.responseTimes.get(botName)?.at(-1);
+    if (recent.length === 0 && last !== undefined) {
+      this.responseTimes.set(botName, [last]);
+    }
+
+    return recent;
+  }
+
+  /**
+   * Minutes past midnight in `timezone`, or null when the timezone is not
+   * one Intl knows
+   */
+  private getMinuteOfDay(date: Date, timezone?: string): number | null {
+    if (!timezone) {
+      return date.getHours() * 60 + date.getMinutes();
+    }
+    if (this.invalidTimezones.has(timezone)) {
+      return null;
+    }
+
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+      parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hour: 'numeric',
+        minute: 'numeric',
+        hourCycle: 'h23',
+      }).formatToParts(date);
+    } catch (error) {
+      this.invalidTimezones.add(timezone);
+      this.logger.warn(
+        { err: error, timezone },
+        'Invalid quiet hours timezone, ignoring quiet hours'
+      );
+      return null;
+    }
+
+    const hour = Number(parts.find((p) => p.type === 'hour')?.value ?? 0);
+    const minute = Number(parts.find((p) => p.type === 'minute')?.value ?? 0);
+    return hour * 60 + minute;
+  }
+
+  private parseTimeOfDay(value: string): number | null {
+    const match = TIME_OF_DAY_PATTERN.exec(value);
+    if (!match) {
+      this.logger.warn({ value }, 'Invalid quiet hours time, expected HH:MM');
+      return null;
+    }
+
+    return Number(match[1]) * 60 + Number(match[2]);
+  }
+
+  private compilePattern(pattern: string): RegExp | null {
+    if (this.patternCache.has(pattern)) {
+      return this.patternCache.get(pattern) ?? null;
+    }
+
+    let compiled: RegExp | null = null;
+    try {
+      compiled = new RegExp(pattern, 'i');
+    } catch (error) {
+      this.logger.warn({ err: error, pattern }, 'Invalid trigger pattern');
+    }
+
+    this.patternCache.set(pattern, compiled);
+    return compiled;
+  }
+}
@@ -0,0 +1,269 @@
+import { Database } from 'bun:sqlite';
+import { existsSync, mkdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { createLogger } from '@/shared/logger';
+import { env } from '../env';
+import type { BotConfig, ConfigManager } from './config-manager';
+
+export type UsagePurpose =
+  | 'reply'
+  | 'moderation'
+  | 'memory'
+  | 'summary'
+  | 'routing';
+
+export type BudgetStatus = 'ok' | 'demoted' | 'muted';
+
+export interface UsageRecord {
+  /** Bot the call was made for, or `summary` for the shared chat summary */
+  botName: string;
+  purpose: UsagePurpose;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+}
+
+export interface SpendSummary {
+  botName: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  todayUsd: number;
+  sessionUsd: number;
+}
+
+interface TotalsRow {
+  bot_name: string;
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost: number;
+}
+
+export function defaultUsageDbPath(): string {
+  return join(dirname(env.TOKEN_DB_PATH), 'usage.db');
+}
+
+function startOfToday(): number {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today.getTime();
+}
+
+/**
+ * Records token usage, latency and estimated cost for every AI call and
+ * enforces the per-bot spend caps from `[bots.budget]`. Costs come from
+ * the `[pricing]` table; unpriced models count as free.
+ */
+export class UsageTracker {
+  private db: Database;
+  private sessionId: string | null = null;
+  private readonly configManager: ConfigManager;
+  // Last status logged per bot, so cap changes are logged once
+  private readonly reportedStatus = new Map<string, BudgetStatus>();
+  private readonly unpricedModels = new Set<string>();
+  private logger = createLogger('UsageTracker');
+
+  constructor(
+    configManager: ConfigManager,
+    dbPath: string = env.USAGE_DB_PATH ?? defaultUsageDbPath()
+  ) {
+    this.configManager = configManager;
+
+    const dir = dirname(dbPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.initializeSchema();
+  }
+
+  private initializeSchema() {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ai_usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT,
+        bot_name TEXT NOT NULL,
+        purpose TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        input_tokens INTEGER NOT NULL,
+        output_tokens INTEGER NOT NULL,
+        latency_ms INTEGER NOT NULL,
+        cost_usd REAL NOT NULL,
+        timestamp INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_ai_usage_bot ON ai_usage(bot_name, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_ai_usage_session ON ai_usage(session_id);
+    `);
+  }
+
+  startSession(sessionId: string): void {
+    this.sessionId = sessionId;
+    this.reportedStatus.clear();
+  }
+
+  endSession(): void {
+    if (!this.sessionId) {
+      return;
+    }
+
+    this.logger.info({ spend: this.getSummary() }, 'Session spend');
+    this.sessionId = null;
+  }
+
+  /** Returns the estimated cost of the call in USD */
+  record(usage: UsageRecord): number {
+    const cost = this.estimateCost(
+      usage.model,
+      usage.inputTokens,
+      usage.outputTokens
+    );
+
+    this.db
+      .prepare(
+        `INSERT INTO ai_usage (session_id, bot_name, purpose, provider, model, input_tokens, output_tokens, latency_ms, cost_usd, timestamp)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        this.sessionId,
+        usage.botName,
+        usage.purpose,
+        usage.provider,
+        usage.model,
+        usage.inputTokens,
+        usage.outputTokens,
+        Math.round(usage.latencyMs),
+        cost,
+        Date.now()
+      );
+
+    this.logger.debug({ ...usage, costUsd: cost }, 'AI usage recorded');
+    return cost;
+  }
+
+  estimateCost(model: string, inputTokens: number, outputTokens: number) {
+    const price = this.configManager.getModelPrice(model);
+    if (!price) {
+      if (!this.unpricedModels.has(model)) {
+        this.unpricedModels.add(model);
+        this.logger.debug({ model }, 'No price configured, counting as free');
+      }
+      return 0;
+    }
+
+    return (inputTokens * price.input + outputTokens * price.output) / 1e6;
+  }
+
+  getBudgetStatus(botConfig: BotConfig): BudgetStatus {
+    const budget = botConfig.budget;
+    if (budget?.dailyUsd === undefined && budget?.sessionUsd === undefined) {
+      return 'ok';
+    }
+
+    const overDaily =
+      budget.dailyUsd !== undefined &&
+      this.getSpend(botConfig.name, startOfToday()) >= budget.dailyUsd;
+    const overSession =
+      budget.sessionUsd !== undefined &&
+      this.getSessionSpend(botConfig.name) >= budget.sessionUsd;
+
+    if (!(overDaily || overSession)) {
+      return 'ok';
+    }
+    return budget.onExceeded === 'demote' && budget.cheapModel
+      ? 'demoted'
+      : 'muted';
+  }
+
+  /**
+   * The config to generate with under the bot's spend caps: unchanged,
+   * switched to its cheap model, or null when it is muted
+   */
+  applyBudget(botConfig: BotConfig): BotConfig | null {
+    const status = this.getBudgetStatus(botConfig);
+
+    if (this.reportedStatus.get(botConfig.name) !== status) {
+      this.reportedStatus.set(botConfig.name, status);
+      if (status !== 'ok') {
+        this.logger.warn(
+          { botName: botConfig.name, status, budget: botConfig.budget },
+          'Spend cap reached'
+        );
+      }
+    }
+
+    if (status === 'muted') {
+      return null;
+    }
+    if (status === 'demoted' && botConfig.budget?.cheapModel) {
+      return {
+        ...botConfig,
+        model: botConfig.budget.cheapModel,
+        fallbackModels: [],
+      };
+    }
+    return botConfig;
+  }
+
+  /** Per-bot totals for today and the current session, highest spend first */
+  getSummary(): SpendSummary[] {
+    const today = this.getTotals('timestamp >= ?', startOfToday());
+    const session = this.sessionId
+      ? this.getTotals('session_id = ?', this.sessionId)
+      : [];
+    const sessionCost = new Map(session.map((row) => [row.bot_name, row.cost]));
+
+    return today
+      .map((row) => ({
+        botName: row.bot_name,
+        calls: row.calls,
+        inputTokens: row.input_tokens,
+        outputTokens: row.output_tokens,
+        todayUsd: row.cost,
+        sessionUsd: sessionCost.get(row.bot_name) ?? 0,
+      }))
+      .sort((a, b) => b.todayUsd - a.todayUsd);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private getSpend(botName: string, since: number): number {
+    const row = this.db
+      .query(
+        'SELECT COALESCE(SUM(cost_usd), 0) AS cost FROM ai_usage WHERE bot_name = ? AND timestamp >= ?'
+      )
+      .get(botName, since) as { cost: number };
+    return row.cost;
+  }
+
+  private getSessionSpend(botName: string): number {
+    if (!this.sessionId) {
+      return 0;
+    }
+
+    const row = this.db
+      .query(
+        'SELECT COALESCE(SUM(cost_usd), 0) AS cost FROM ai_usage WHERE bot_name = ? AND session_id = ?'
+      )
+      .get(botName, this.sessionId) as { cost: number };
+    return row.cost;
+  }
+
+  private getTotals(condition: string, value: string | number): TotalsRow[] {
+    return this.db
+      .query(
+        `SELECT bot_name, COUNT(*) AS calls, SUM(input_tokens) AS input_tokens,
+                SUM(output_tokens) AS output_tokens, SUM(cost_usd) AS cost
+         FROM ai_usage WHERE ${condition} GROUP BY bot_name`
+      )
+      .all(value) as TotalsRow[];
+  }
+}
@@ -0,0 +1,225 @@
+import { Database } from 'bun:sqlite';
+import { existsSync, mkdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { createLogger } from '@/shared/logger';
+import { env } from '../env';
+import type { MemorySettings } from './config-manager';
+
+export const DEFAULT_MEMORY_SETTINGS = {
+  enabled: true,
+  maxPerViewer: 20,
+  maxInPrompt: 5,
+  decayDays: 30,
+} as const satisfies Required<Omit<MemorySettings, 'model' | 'provider'>>;
+
+const WORD_PATTERN = /[\p{L}\p{N}']{4,}/gu;
+
+export type MemoryKind = 'fact' | 'relationship';
+
+export interface ViewerMemory {
+  kind: MemoryKind;
+  content: string;
+}
+
+export interface Viewer {
+  userId: string;
+  user: string;
+}
+
+interface MemoryRow {
+  id: number;
+  kind: MemoryKind;
+  content: string;
+  last_seen_at: number;
+}
+
+export function defaultMemoryDbPath(): string {
+  return join(dirname(env.TOKEN_DB_PATH), 'memory.db');
+}
+
+/**
+ * Long-term notes each bot keeps about individual viewers. Memories are
+ * keyed by Twitch user ID so they survive name changes, capped per viewer
+ * and forgotten once they have not come up for `decayDays`.
+ */
+export class ViewerMemoryStore {
+  private db: Database;
+  private logger = createLogger('ViewerMemoryStore');
+
+  constructor(dbPath: string = env.MEMORY_DB_PATH ?? defaultMemoryDbPath()) {
+    const dir = dirname(dbPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.initializeSchema();
+  }
+
+  private initializeSchema() {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS viewer_memories (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        bot_name TEXT NOT NULL,
+        viewer_id TEXT NOT NULL,
+        viewer_name TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_at INTEGER DEFAULT (unixepoch()),
+        last_seen_at INTEGER DEFAULT (unixepoch()),
+        UNIQUE (bot_name, viewer_id, content)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_viewer_memories_viewer ON viewer_memories(bot_name, viewer_id);
+      CREATE INDEX IF NOT EXISTS idx_viewer_memories_seen ON viewer_memories(last_seen_at);
+    `);
+  }
+
+  /**
+   * Memories most relevant to `message`, preferring ones that share words
+   * with it and then the most recently used. Recalled memories count as
+   * used, which keeps them from decaying.
+   */
+  recall(
+    botName: string,
+    viewer: Viewer,
+    message: string,
+    limit: number
+  ): ViewerMemory[] {
+    const rows = this.getRows(botName, viewer.userId);
+    if (rows.length === 0 || limit <= 0) {
+      return [];
+    }
+
+    const words = new Set(message.toLowerCase().match(WORD_PATTERN) ?? []);
+    const ranked = rows
+      .map((row) => ({ row, score: this.relevance(row.content, words) }))
+      .sort(
+        (a, b) => b.score - a.score || b.row.last_seen_at - a.row.last_seen_at
+      )
+      .slice(0, limit)
+      .map(({ row }) => row);
+
+    const touch = this.db.prepare(
+      'UPDATE viewer_memories SET last_seen_at = unixepoch() WHERE id = ?'
+    );
+    this.db.transaction(() => {
+      for (const row of ranked) {
+        touch.run(row.id);
+      }
+    })();
+
+    return ranked.map(({ kind, content }) => ({ kind, content }));
+  }
+
+  /** Everything a bot remembers about a viewer, newest first */
+  list(botName: string, userId: string): ViewerMemory[] {
+    return this.getRows(botName, userId).map(({ kind, content }) => ({
+      kind,
+      content,
+    }));
+  }
+
+  /**
+   * Store new memories, refreshing any the bot already had, then drop the
+   * least recently used ones beyond `maxPerViewer`
+   */
+  remember(
+    botName: string,
+    viewer: Viewer,
+    memories: ViewerMemory[],
+    maxPerViewer: number
+  ): void {
+    const upsert = this.db.prepare(`
+      INSERT INTO viewer_memories (bot_name, viewer_id, viewer_name, kind, content)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(bot_name, viewer_id, content) DO UPDATE SET
+        viewer_name = excluded.viewer_name,
+        kind = excluded.kind,
+        last_seen_at = unixepoch()
+    `);
+    const trim = this.db.prepare(`
+      DELETE FROM viewer_memories
+      WHERE bot_name = ? AND viewer_id = ? AND id NOT IN (
+        SELECT id FROM viewer_memories
+        WHERE bot_name = ? AND viewer_id = ?
+        ORDER BY last_seen_at DESC, id DESC
+        LIMIT ?
+      )
+    `);
+    const bot = botName.toLowerCase();
+
+    this.db.transaction(() => {
+      for (const memory of memories) {
+        upsert.run(
+          bot,
+          viewer.userId,
+          viewer.user.toLowerCase(),
+          memory.kind,
+          memory.content.trim()
+        );
+      }
+      trim.run(bot, viewer.userId, bot, viewer.userId, maxPerViewer);
+    })();
+
+    this.logger.debug(
+      { botName, viewer: viewer.user, count: memories.length },
+      'Stored viewer memories'
+    );
+  }
+
+  /**
+   * Wipe what every bot remembers about a viewer, matched by user ID or
+   * login name. Returns the number of memories removed.
+   */
+  forgetViewer(viewer: string): number {
+    const result = this.db
+      .prepare(
+        'DELETE FROM viewer_memories WHERE viewer_id = ? OR viewer_name = ?'
+      )
+      .run(viewer, viewer.toLowerCase());
+
+    this.logger.info(
+      { viewer, removed: result.changes },
+      'Forgot viewer memories'
+    );
+    return result.changes;
+  }
+
+  /** Drop memories that have not been recalled or reinforced recently */
+  pruneExpired(decayDays: number): number {
+    const result = this.db
+      .prepare(
+        'DELETE FROM viewer_memories WHERE last_seen_at < unixepoch() - ?'
+      )
+      .run(Math.round(decayDays * 86_400));
+
+    if (result.changes > 0) {
+      this.logger.info(
+        { removed: result.changes, decayDays },
+        'Pruned decayed viewer memories'
+      );
+    }
+    return result.changes;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private getRows(botName: string, userId: string): MemoryRow[] {
+    return this.db
+      .query(
+        `SELECT id, kind, content, last_seen_at FROM viewer_memories
+         WHERE bot_name = ? AND viewer_id = ?
+         ORDER BY last_seen_at DESC, id DESC`
+      )
+      .all(botName.toLowerCase(), userId) as MemoryRow[];
+  }
+
+  private relevance(content: string, words: Set<string>): number {
+    const contentWords = content.toLowerCase().match(WORD_PATTERN) ?? [];
+    return contentWords.filter((word) => words.has(word)).length;
+  }
+}
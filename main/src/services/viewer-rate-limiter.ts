@@ -0,0 +1,265 @@
+import { createLogger } from '@/shared/logger';
+import type { ChatMessage, Role } from './chat-listener.service';
+import type { RateLimitSettings } from './config-manager';
+import type { TriggerType } from './trigger-policy';
+
+export const DEFAULT_RATE_LIMIT_SETTINGS = {
+  viewerReplies: 3,
+  viewerWindowSeconds: 60,
+  channelReplies: 30,
+  channelWindowSeconds: 60,
+  exemptRoles: ['broadcaster', 'moderator'],
+  throttledMentions: 'group',
+} as const satisfies Required<RateLimitSettings>;
+
+const MAX_GROUPED_MENTIONS = 5;
+const MAX_IDLE_BUCKETS = 500;
+
+class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  readonly capacity: number;
+  readonly windowMs: number;
+
+  constructor(capacity: number, windowMs: number, now = Date.now()) {
+    this.capacity = capacity;
+    this.windowMs = windowMs;
+    this.tokens = capacity;
+    this.lastRefill = now;
+  }
+
+  hasToken(now = Date.now()): boolean {
+    this.refill(now);
+    return this.tokens >= 1;
+  }
+
+  take(now = Date.now()): void {
+    this.refill(now);
+    this.tokens = Math.max(0, this.tokens - 1);
+  }
+
+  isFull(now = Date.now()): boolean {
+    this.refill(now);
+    return this.tokens >= this.capacity;
+  }
+
+  msUntilNextToken(now = Date.now()): number {
+    this.refill(now);
+    if (this.tokens >= 1) {
+      return 0;
+    }
+    return Math.ceil(((1 - this.tokens) * this.windowMs) / this.capacity);
+  }
+
+  private refill(now: number): void {
+    const elapsed = now - this.lastRefill;
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (elapsed * this.capacity) / this.windowMs
+    );
+    this.lastRefill = now;
+  }
+}
+
+interface PendingMentions {
+  botName: string;
+  messages: ChatMessage[];
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Token buckets that cap AI replies per viewer (for mentions) and per
+ * channel (for everything). Throttled mentions are either dropped or held
+ * and released as a single grouped reply once the viewer has budget again.
+ */
+export class ViewerRateLimiter {
+  private readonly viewerBuckets = new Map<string, TokenBucket>();
+  private channelBucket: TokenBucket | undefined;
+  private readonly pending = new Map<string, PendingMentions>();
+  private readonly onGroupedRelease: (
+    botName: string,
+    messages: ChatMessage[]
+  ) => void;
+  private readonly logger = createLogger('ViewerRateLimiter');
+
+  constructor(
+    onGroupedRelease: (botName: string, messages: ChatMessage[]) => void
+  ) {
+    this.onGroupedRelease = onGroupedRelease;
+  }
+
+  /**
+   * Returns true when the reply may be generated now. Consumes budget only
+   * when the reply is allowed.
+   */
+  tryAcquire(
+    msg: ChatMessage,
+    botName: string,
+    trigger: TriggerType,
+    settings: RateLimitSettings
+  ): boolean {
+    const viewerBucket = this.isViewerLimited(msg, trigger, settings)
+      ? this.getViewerBucket(msg.user, settings)
+      : undefined;
+    const channelBucket = this.getChannelBucket(settings);
+
+    if (viewerBucket && !viewerBucket.hasToken()) {
+      this.handleThrottledMention(msg, botName, viewerBucket, settings);
+      return false;
+    }
+
+    if (!channelBucket.hasToken()) {
+      this.logger.info(
+        { user: msg.user, botName, trigger },
+        'Channel reply cap reached, dropping reply'
+      );
+      return false;
+    }
+
+    viewerBucket?.take();
+    channelBucket.take();
+    return true;
+  }
+
+  reset(): void {
+    for (const { timer } of this.pending.values()) {
+      clearTimeout(timer);
+    }
+    this.pending.clear();
+    this.viewerBuckets.clear();
+    this.channelBucket = undefined;
+  }
+
+  private isViewerLimited(
+    msg: ChatMessage,
+    trigger: TriggerType,
+    settings: RateLimitSettings
+  ): boolean {
+    const exemptRoles: readonly Role[] =
+      settings.exemptRoles ?? DEFAULT_RATE_LIMIT_SETTINGS.exemptRoles;
+
+    return trigger === 'mention' && !exemptRoles.includes(msg.role);
+  }
+
+  private handleThrottledMention(
+    msg: ChatMessage,
+    botName: string,
+    viewerBucket: TokenBucket,
+    settings: RateLimitSettings
+  ): void {
+    const mode =
+      settings.throttledMentions ??
+      DEFAULT_RATE_LIMIT_SETTINGS.throttledMentions;
+
+    if (mode === 'drop') {
+      this.logger.info(
+        { user: msg.user, botName },
+        'Dropped throttled mention'
+      );
+      return;
+    }
+
+    const key = `${msg.user.toLowerCase()}:${botName}`;
+    const existing = this.pending.get(key);
+    if (existing) {
+      existing.messages.push(msg);
+      existing.messages.splice(
+        0,
+        existing.messages.length - MAX_GROUPED_MENTIONS
+      );
+      return;
+    }
+
+    this.logger.info(
+      { user: msg.user, botName },
+      'Viewer throttled, grouping mentions'
+    );
+    this.pending.set(key, {
+      botName,
+      messages: [msg],
+      timer: this.scheduleRelease(key, viewerBucket, settings),
+    });
+  }
+
+  private scheduleRelease(
+    key: string,
+    viewerBucket: TokenBucket,
+    settings: RateLimitSettings
+  ): ReturnType<typeof setTimeout> {
+    return setTimeout(
+      () => {
+        const pending = this.pending.get(key);
+        if (!pending) {
+          return;
+        }
+
+        const channelBucket = this.getChannelBucket(settings);
+        if (!(viewerBucket.hasToken() && channelBucket.hasToken())) {
+          pending.timer = this.scheduleRelease(key, viewerBucket, settings);
+          return;
+        }
+
+        viewerBucket.take();
+        channelBucket.take();
+        this.pending.delete(key);
+        this.onGroupedRelease(pending.botName, pending.messages);
+      },
+      Math.max(viewerBucket.msUntilNextToken(), 1000)
+    );
+  }
+
+  private getViewerBucket(
+    user: string,
+    settings: RateLimitSettings
+  ): TokenBucket {
+    const capacity =
+      settings.viewerReplies ?? DEFAULT_RATE_LIMIT_SETTINGS.viewerReplies;
+    const windowMs =
+      (settings.viewerWindowSeconds ??
+        DEFAULT_RATE_LIMIT_SETTINGS.viewerWindowSeconds) * 1000;
+
+    const key = user.toLowerCase();
+    let bucket = this.viewerBuckets.get(key);
+    if (
+      !bucket ||
+      bucket.capacity !== capacity ||
+      bucket.windowMs !== windowMs
+    ) {
+      this.pruneIdleBuckets();
+      bucket = new TokenBucket(capacity, windowMs);
+      this.viewerBuckets.set(key, bucket);
+    }
+
+    return bucket;
+  }
+
+  private getChannelBucket(settings: RateLimitSettings): TokenBucket {
+    const capacity =
+      settings.channelReplies ?? DEFAULT_RATE_LIMIT_SETTINGS.channelReplies;
+    const windowMs =
+      (settings.channelWindowSeconds ??
+        DEFAULT_RATE_LIMIT_SETTINGS.channelWindowSeconds) * 1000;
+
+    if (
+      !this.channelBucket ||
+      this.channelBucket.capacity !== capacity ||
+      this.channelBucket.windowMs !== windowMs
+    ) {
+      this.channelBucket = new TokenBucket(capacity, windowMs);
+    }
+
+    return this.channelBucket;
+  }
+
+  private pruneIdleBuckets(): void {
+    if (this.viewerBuckets.size < MAX_IDLE_BUCKETS) {
+      return;
+    }
+
+    for (const [user, bucket] of this.viewerBuckets) {
+      if (bucket.isFull()) {
+        this.viewerBuckets.delete(user);
+      }
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { parseArgs } from 'node:util';
+import type { ModerationEvent } from '../main/src/services/chat-listener.service';
+import {
+  type ChatLogKind,
+  type ChatLogQuery,
+  ChatLogStore,
+} from '../main/src/services/chat-log-store';
+import {
+  buildShadowReport,
+  DEFAULT_SHADOW_MATCH_MINUTES,
+} from '../main/src/services/shadow-report';
+
+// Search the persistent chat log, e.g. to find out why a bot said something
+//
+//   bun run chat-log --user someviewer --since 2h
+//   bun run chat-log --text "discord" --kind moderation
+//   bun run chat-log --from 2025-01-01T20:00 --to 2025-01-01T21:00
+//   bun run chat-log --shadow-report --since 1d
+
+const RELATIVE_TIME_PATTERN = /^(\d+)([mhd])$/;
+const UNIT_MS = { m: 60_000, h: 3_600_000, d: 86_400_000 } as const;
+
+const { values } = parseArgs({
+  options: {
+    user: { type: 'string', short: 'u' },
+    text: { type: 'string', short: 't' },
+    since: { type: 'string', short: 's' },
+    from: { type: 'string' },
+    to: { type: 'string' },
+    session: { type: 'string' },
+    kind: { type: 'string', multiple: true, short: 'k' },
+    limit: { type: 'string', short: 'n' },
+    db: { type: 'string' },
+    'shadow-report': { type: 'boolean' },
+    window: { type: 'string' },
+  },
+});
+
+function parseTime(value: string): number {
+  const relative = RELATIVE_TIME_PATTERN.exec(value);
+  if (relative) {
+    const [, amount = '0', unit = 'm'] = relative;
+    return Date.now() - Number(amount) * UNIT_MS[unit as keyof typeof UNIT_MS];
+  }
+
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid time: ${value}`);
+  }
+  return time;
+}
+
+const since = values.since ?? values.from;
+const query: ChatLogQuery = {
+  ...(values.user && { user: values.user }),
+  ...(values.text && { text: values.text }),
+  ...(since && { from: parseTime(since) }),
+  ...(values.to && { to: parseTime(values.to) }),
+  ...(values.session && { sessionId: values.session }),
+  ...(values.kind && { kinds: values.kind as ChatLogKind[] }),
+  ...(values.limit && { limit: Number(values.limit) }),
+};
+
+const store = values.db ? new ChatLogStore(values.db) : new ChatLogStore();
+
+function describeAction(event: ModerationEvent): string {
+  return event.duration === undefined
+    ? event.type
+    : `${event.type} ${event.duration}s`;
+}
+
+// Shadow decisions next to what human mods did to the same viewers
+function printShadowReport(): void {
+  const events = store
+    .search({ ...query, kinds: ['moderation'], limit: query.limit ?? 10_000 })
+    .reverse()
+    .map((entry) => entry.data as ModerationEvent);
+  const report = buildShadowReport(
+    events,
+    values.window ? Number(values.window) : DEFAULT_SHADOW_MATCH_MINUTES
+  );
+  const lines: string[] = [];
+
+  for (const { rule, decisions, matched } of report.rules) {
+    lines.push(
+      `${rule}: ${decisions} shadow decisions, ${matched} also acted on by a mod (${Math.round((matched / decisions) * 100)}%)`
+    );
+  }
+  for (const { decision, humanAction } of report.decisions) {
+    const time = new Date(decision.timestamp).toISOString();
+    const human = humanAction ? describeAction(humanAction) : 'no mod action';
+    lines.push(
+      `${time} ${decision.user}: would ${describeAction(decision)} (${decision.reason}), mods: ${human} | "${decision.message ?? ''}"`
+    );
+  }
+  for (const action of report.missed) {
+    const time = new Date(action.timestamp).toISOString();
+    lines.push(
+      `${time} ${action.user}: mods ${describeAction(action)}, no shadow decision`
+    );
+  }
+
+  // biome-ignore lint/suspicious/noConsole: CLI output
+  console.log(lines.join('\n') || 'No shadow decisions or mod actions found');
+}
+
+if (values['shadow-report']) {
+  printShadowReport();
+} else {
+  // Oldest first so the output reads like chat
+  for (const entry of store.search(query).reverse()) {
+    const time = new Date(entry.timestamp).toISOString();
+    // biome-ignore lint/suspicious/noConsole: CLI output
+    console.log(`${time} [${entry.kind}] ${entry.user}: ${entry.message}`);
+  }
+}
+
+store.close();